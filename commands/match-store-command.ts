@@ -1,4 +1,5 @@
 import { TransactionCommand, TransactionEvent, CommandContext } from '../core/types';
+import { delay } from '../core/cancellation';
 
 /**
  * Command Pattern Implementation - Store Product Matching
@@ -27,6 +28,14 @@ import { TransactionCommand, TransactionEvent, CommandContext } from '../core/ty
  * - Commands are enhanced by the Decorator Pattern (hooks)
  */
 
+/**
+ * Settings for MatchStoreToProductCommand, taken from the commands config section
+ */
+export interface MatchStoreSettings {
+  /** Simulated processing time in milliseconds */
+  delayMs: number;
+}
+
 /**
  * MatchStoreToProductCommand - Handles the core business logic of matching stores to products
  * 
@@ -57,9 +66,16 @@ export class MatchStoreToProductCommand implements TransactionCommand {
    * - Immutability (the event can't be changed after creation)
    * - Testability (easy to provide mock events)
    * 
+   * Settings come in the same way, so a test can run the command with no delay
+   * without touching any configuration files.
+   * 
    * @param event The event triggering this command
+   * @param settings Tuning knobs for the command
    */
-  constructor(private event: TransactionEvent<{storeId: string, productList: any[]}>) {}
+  constructor(
+    private event: TransactionEvent<{storeId: string, productList: any[]}>,
+    private settings: MatchStoreSettings
+  ) {}
   
   /**
    * Executes the command's business logic
@@ -81,7 +97,8 @@ export class MatchStoreToProductCommand implements TransactionCommand {
     
     // Add some simulated business logic delay
     // In a real system, this would be actual business processing
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // It listens to the context's signal, so a timed-out command stops waiting
+    await delay(this.settings.delayMs, context.signal);
     
     // Generate match ID - in a real system, this might come from a database
     const matchId = 'MATCH-' + Math.random().toString(36).substring(2, 9).toUpperCase();
@@ -0,0 +1,64 @@
+import { TransactionCommand, TransactionEvent, CommandContext } from '../core/types';
+
+/**
+ * Command Pattern Implementation - Record Commission
+ *
+ * This command writes the projected commission for a match to the commission
+ * ledger. It's the second handler for STORE_MATCHED events, next to RepCheckIn,
+ * and it's a good example of why fan-out exists:
+ *
+ * - Checking a rep in and booking the commission are separate business operations
+ * - Either one can fail without the other having to be undone
+ * - Different teams own them, and neither wants its code inside the other's command
+ *
+ * Before fan-out, the only option was to cram both into RepCheckIn.
+ */
+
+/**
+ * RecordCommissionCommand - Books the projected commission for a matched store
+ *
+ * The commission numbers come from the commission calculator hook through
+ * `context.state` - the command just records them. Calculation rules live in
+ * one place (the hook and its config), bookkeeping lives here.
+ */
+export class RecordCommissionCommand implements TransactionCommand {
+  /** Unique identifier for this command instance */
+  commandId = 'record-commission-' + Math.random().toString(36).substring(2, 9);
+
+  /**
+   * Creates a new record commission command for the given event
+   *
+   * @param event The STORE_MATCHED event triggering this command
+   */
+  constructor(private event: TransactionEvent<{ matchId: string, storeId: string }>) {}
+
+  /**
+   * Records the commission in the ledger
+   *
+   * @param context The execution context (with the commission calculator's results in state)
+   */
+  async invoke(context: CommandContext): Promise<void> {
+    const projectedCommission: number = context.state.projectedCommission ?? 0;
+    const commissionRate: number = context.state.commissionRate ?? 0;
+
+    console.log(`📒 Recording commission of $${projectedCommission.toFixed(2)} for match ${this.event.payload.matchId}`);
+
+    // In a real system, this would write to the commission ledger database
+    context.eventCollector.addEvent({
+      id: Math.random().toString(36).substring(2, 9),
+      type: 'COMMISSION_RECORDED',
+      payload: {
+        matchId: this.event.payload.matchId,
+        storeId: this.event.payload.storeId,
+        commissionRate,
+        projectedCommission
+      },
+      metadata: {
+        correlationId: this.event.metadata.correlationId,
+        causationId: this.event.id,
+        timestamp: new Date(),
+        source: 'commission-ledger'
+      }
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { TransactionCommand, TransactionEvent, CommandContext } from '../core/types';
+
+/**
+ * Command Pattern Implementation - Record Unhandled Event
+ *
+ * This is the fallback command: the command builder uses it for events that no
+ * route matches. Instead of throwing (and losing the event), it records that the
+ * event arrived and nobody handled it.
+ *
+ * WHY A COMMAND AND NOT A LOG LINE?
+ * Because a command gets the whole pipeline for free. The unhandled event is
+ * still logged, authorized, timed and counted by the same hooks as everything
+ * else, and the EVENT_UNHANDLED side effect it emits can be picked up by anyone
+ * who cares - an ops dashboard, a dead letter store, a product manager
+ * wondering how often the brand portal sends PRODUCT_UPDATED.
+ */
+
+/**
+ * RecordUnhandledEventCommand - Records an event that no command handles
+ *
+ * Emits an EVENT_UNHANDLED side effect carrying the original event, linked to
+ * it through the correlation and causation IDs like any other side effect.
+ */
+export class RecordUnhandledEventCommand implements TransactionCommand {
+  /** Unique identifier for this command instance */
+  commandId = 'record-unhandled-' + Math.random().toString(36).substring(2, 9);
+
+  /**
+   * Creates a new record command for the given event
+   *
+   * @param event The event nobody handles
+   */
+  constructor(private event: TransactionEvent) {}
+
+  /**
+   * Records the unhandled event
+   *
+   * @param context The execution context
+   */
+  async invoke(context: CommandContext): Promise<void> {
+    console.log(`📭 No command handles ${this.event.type} events - recording event ${this.event.id}`);
+
+    context.eventCollector.addEvent({
+      id: Math.random().toString(36).substring(2, 9),
+      type: 'EVENT_UNHANDLED',
+      payload: {
+        eventId: this.event.id,
+        eventType: this.event.type,
+        source: this.event.metadata.source,
+        originalEvent: this.event
+      },
+      metadata: {
+        // Keep the trail intact - the record belongs to the same business process
+        correlationId: this.event.metadata.correlationId,
+        causationId: this.event.id,
+        timestamp: new Date(),
+        source: 'command-router'
+      }
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { TransactionCommand, TransactionEvent, CommandContext } from '../core/types';
+import { delay } from '../core/cancellation';
 
 /**
  * Command Pattern Implementation - Rep Check In
@@ -25,6 +26,18 @@ import { TransactionCommand, TransactionEvent, CommandContext } from '../core/ty
  * 3. Future commands could handle rep follow-up, sales tracking, etc.
  */
 
+/**
+ * Settings for RepCheckIn, taken from the commands and commissions config sections
+ */
+export interface RepCheckInSettings {
+  /** Simulated processing time in milliseconds */
+  delayMs: number;
+  /** Commission rate used for the rep's estimate (fraction) */
+  commissionRate: number;
+  /** Revenue assumed when the event doesn't carry one */
+  defaultRevenue: number;
+}
+
 /**
  * RepCheckIn - Handles the core business logic of marking a rep as checked in to a store
  * 
@@ -48,8 +61,12 @@ export class RepCheckIn implements TransactionCommand {
    * makes the code more self-documenting.
    * 
    * @param event The event triggering this command
+   * @param settings Delay and commission settings for the command
    */
-  constructor(private event: TransactionEvent<{matchId: string, storeId: string, potentialRevenue?: number}>) {}
+  constructor(
+    private event: TransactionEvent<{matchId: string, storeId: string, potentialRevenue?: number}>,
+    private settings: RepCheckInSettings
+  ) {}
   
   /**
    * Executes the rep check in business logic
@@ -70,7 +87,8 @@ export class RepCheckIn implements TransactionCommand {
     
     // Add some simulated business logic delay
     // In a real system, this might involve database queries, API calls, etc.
-    await new Promise(resolve => setTimeout(resolve, 700));
+    // It listens to the context's signal, so a timed-out command stops waiting
+    await delay(this.settings.delayMs, context.signal);
     
     // Simulate rep selection algorithm
     // In a real system, this would use:
@@ -83,9 +101,8 @@ export class RepCheckIn implements TransactionCommand {
     // Calculate estimated commission for the rep
     // This is a key business calculation that motivates the rep
     // Notice how business logic like this belongs in commands, not in hooks
-    const commissionRate = 0.15; // 15% commission
     const estimatedCommission = 
-      (this.event.payload.potentialRevenue || 1000) * commissionRate;
+      (this.event.payload.potentialRevenue || this.settings.defaultRevenue) * this.settings.commissionRate;
     
     console.log(`💵 Estimated commission for rep: ${estimatedCommission.toFixed(2)}`);
     
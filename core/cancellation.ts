@@ -0,0 +1,49 @@
+/**
+ * Cancellation Helpers
+ *
+ * Every command gets an AbortSignal in its context. A signal is only useful if
+ * the command actually listens to it, so the waiting primitives commands use
+ * live here, already wired up to one.
+ */
+
+/**
+ * Waits for a number of milliseconds, or until the signal aborts
+ *
+ * A plain `setTimeout` promise keeps a timed-out command sleeping long after
+ * nobody cares about its answer. This one rejects with the signal's reason
+ * (a CommandTimeoutError when the builder's timeout fired) the moment the
+ * signal aborts, and clears its timer so nothing is left behind.
+ *
+ * @param ms How long to wait
+ * @param signal Cancels the wait when aborted
+ * @returns A promise that resolves after the delay
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * The error an aborted signal should fail with
+ *
+ * abort() without a reason leaves a DOMException behind; wrapping anything
+ * that isn't an Error keeps the "hooks always get an Error" promise.
+ */
+export function abortReason(signal: AbortSignal): Error {
+  const reason = signal.reason;
+  return reason instanceof Error ? reason : new Error(`Operation aborted${reason !== undefined ? `: ${String(reason)}` : ''}`);
+}
@@ -4,8 +4,24 @@ import {
   TransactionEvent,
   PreInvokeHook,
   PostInvokeHook,
-  CommandContext
+  AroundInvokeHook,
+  ErrorHook,
+  FinallyHook,
+  CommandContext,
+  HookStage,
+  HookOptions,
+  HookDescriptor,
+  HookByStage,
+  CommandFactory,
+  CommandRoute,
+  CommandRouteOptions,
+  CommandFactoryOptions,
+  TimeoutOptions,
+  RetryOptions
 } from './types';
+import { CommandTimeoutError, UnhandledEventError, recordFailureOrigin } from './errors';
+import { abortReason } from './cancellation';
+import { runWithRetry, validateRetryOptions } from './retry';
 
 /**
  * Command Builder Implementation
@@ -46,6 +62,71 @@ import {
  * Junior devs pick it up quickly, and senior devs appreciate the clean separation of concerns.
  */
 
+/**
+ * Thrown when a second factory is registered for the same event type
+ * 
+ * Map.set would happily replace the first one, and then you find out in
+ * production that half your STORE_MATCHED events are handled by a command
+ * nobody meant to ship. If replacing is what you want, say so with override.
+ */
+export class DuplicateCommandFactoryError extends Error {
+  constructor(public readonly eventType: string) {
+    super(`A command factory is already registered for event type: ${eventType} (pass { override: true } to replace it)`);
+    this.name = 'DuplicateCommandFactoryError';
+  }
+}
+
+/**
+ * A factory registered for an exact event type
+ */
+interface FactoryEntry {
+  factory: CommandFactory;
+  /** Registered as one of several handlers (fan-out) */
+  multi: boolean;
+}
+
+/**
+ * A route that matches event types with a glob pattern
+ */
+interface GlobRoute {
+  pattern: string;
+  factory: CommandFactory;
+  priority: number;
+}
+
+/**
+ * A route that matches events with a predicate
+ */
+interface PredicateRoute {
+  matches: (event: TransactionEvent) => boolean;
+  factory: CommandFactory;
+  priority: number;
+}
+
+/**
+ * A hook registered with the builder, tagged with the stage it runs in
+ * 
+ * One list for every stage keeps registration order in a single place and
+ * lets the same scoping logic apply to all kinds of hooks.
+ */
+type HookEntry =
+  | { stage: 'pre'; hook: PreInvokeHook; options: HookOptions }
+  | { stage: 'post'; hook: PostInvokeHook; options: HookOptions }
+  | { stage: 'around'; hook: AroundInvokeHook; options: HookOptions }
+  | { stage: 'error'; hook: ErrorHook; options: HookOptions }
+  | { stage: 'finally'; hook: FinallyHook; options: HookOptions };
+
+/**
+ * One link in the middleware chain, with where errors from it should be blamed
+ */
+interface ChainLink {
+  origin: string;
+  hook: AroundInvokeHook;
+}
+
+/** The hook function type for a given stage */
+type HookAt<S extends HookStage> = Extract<HookEntry, { stage: S }>['hook'];
+
 /**
  * ShadowTransactionCommandBuilder - Implements the Builder Pattern for commands
  * 
@@ -59,12 +140,22 @@ import {
  * 3. Providing a fluent interface for adding capabilities
  */
 export class ShadowTransactionCommandBuilder implements TransactionCommandBuilder {
-  /** Hooks that run before command execution */
-  private preInvokeHooks: PreInvokeHook[] = [];
-  /** Hooks that run after command execution */
-  private postInvokeHooks: PostInvokeHook[] = [];
-  /** Factories for creating commands based on event types */
-  private commandFactories: Map<string, (event: TransactionEvent) => TransactionCommand> = new Map();
+  /** Every registered hook, in registration order, with the stage it runs in */
+  private hooks: HookEntry[] = [];
+  /** Factories for creating commands based on event types (several per type with fan-out) */
+  private commandFactories: Map<string, FactoryEntry[]> = new Map();
+  /** Glob routes like STORE_*, checked when no exact factory matches */
+  private globRoutes: GlobRoute[] = [];
+  /** Predicate routes, checked when no exact or glob route matches */
+  private predicateRoutes: PredicateRoute[] = [];
+  /** Used for events nothing else matches */
+  private fallbackFactory?: CommandFactory;
+  /** Timeout for events without one of their own */
+  private defaultTimeoutMs?: number;
+  /** Timeouts for specific event types */
+  private eventTypeTimeouts: Map<string, number> = new Map();
+  /** How failed commands are retried */
+  private retryPolicy?: RetryOptions;
   
   /**
    * Registers a factory function for creating commands of a specific event type
@@ -77,11 +168,135 @@ export class ShadowTransactionCommandBuilder implements TransactionCommandBuilde
    * - Single place to modify when command creation needs to change
    * - Ability to map multiple event types to the same command if needed (DRY principle)
    * 
+   * Unlike the withX methods this one changes the builder in place - it's meant
+   * for setting a builder up, before you start deriving stacks from it. Builders
+   * derived afterwards get a copy of the factories, not a live view.
+   * 
+   * FAN-OUT:
+   * Sometimes one event really does mean several independent pieces of work -
+   * a STORE_MATCHED event checks a rep in AND records the commission in the
+   * ledger. Register each handler with multi and the event fans out to all of
+   * them, in registration order. It's the same rule the DI container uses for
+   * multi-bindings: every handler for the type has to be multi, so a stray
+   * second registration still fails loudly.
+   * 
    * @param eventType The type of event this factory handles
    * @param factory Function that creates a command for the event
+   * @param options Set override to replace the existing factories, or multi to add a handler
+   * @throws DuplicateCommandFactoryError if the event type already has a factory and neither override nor multi applies
+   */
+  registerCommandFactory(eventType: string, factory: CommandFactory, options: CommandFactoryOptions = {}): void {
+    const entry: FactoryEntry = { factory, multi: Boolean(options.multi) };
+    const existing = this.commandFactories.get(eventType);
+    
+    if (!existing || options.override) {
+      this.commandFactories.set(eventType, [entry]);
+      return;
+    }
+    if (!entry.multi || existing.some(candidate => !candidate.multi)) {
+      throw new DuplicateCommandFactoryError(eventType);
+    }
+    existing.push(entry);
+  }
+  
+  /**
+   * Routes events to a factory by pattern
+   * 
+   * Exact event types are great until the business adds STORE_CONFIRMED_MATCH,
+   * STORE_REJECTED_MATCH and STORE_PAUSED_MATCH in one sprint, all handled the
+   * same way. A route covers the whole family:
+   * 
+   *   builder.registerCommandRoute('STORE_*', event => new StoreStatusCommand(event));
+   *   builder.registerCommandRoute(event => event.metadata.source === 'legacy', ...);
+   * 
+   * When several routes match, the most specific kind wins - exact type, then
+   * glob, then predicate. Among globs, lower priority wins, then the more
+   * specific pattern (more literal characters), then the earlier registration.
+   * Among predicates, lower priority wins, then the earlier registration.
+   * A string without a * is just an exact registration (and can fan out with
+   * multi); pattern routes always pick a single handler.
+   * 
+   * @param route A glob over the event type, or a predicate over the event
+   * @param factory Function that creates a command for matching events
+   * @param options Priority among routes of the same kind, and override
+   * @throws DuplicateCommandFactoryError if the same exact type or glob is registered twice without override
+   */
+  registerCommandRoute(route: CommandRoute, factory: CommandFactory, options: CommandRouteOptions = {}): void {
+    const priority = options.priority ?? 0;
+    
+    if (typeof route === 'function') {
+      this.predicateRoutes.push({ matches: route, factory, priority });
+      return;
+    }
+    
+    if (!route.includes('*')) {
+      this.registerCommandFactory(route, factory, { override: options.override, multi: options.multi });
+      return;
+    }
+    
+    const existing = this.globRoutes.findIndex(candidate => candidate.pattern === route);
+    if (existing >= 0 && !options.override) {
+      throw new DuplicateCommandFactoryError(route);
+    }
+    if (existing >= 0) {
+      this.globRoutes.splice(existing, 1);
+    }
+    this.globRoutes.push({ pattern: route, factory, priority });
+  }
+  
+  /**
+   * Removes the factories for an event type, or a glob route
+   * 
+   * Takes whatever registerCommandRoute took as a string: a string with a *
+   * removes the glob route registered with exactly that pattern (it doesn't
+   * remove the exact types the pattern matches). Predicate routes can't be
+   * named, so they can't be removed.
+   * 
+   * @param eventType The event type (or glob pattern) to stop handling
+   * @returns True if any factories were registered and have been removed
+   */
+  unregisterCommandFactory(eventType: string): boolean {
+    if (!eventType.includes('*')) {
+      return this.commandFactories.delete(eventType);
+    }
+    const route = this.globRoutes.findIndex(candidate => candidate.pattern === eventType);
+    if (route < 0) {
+      return false;
+    }
+    this.globRoutes.splice(route, 1);
+    return true;
+  }
+  
+  /**
+   * Checks whether events of a type can be built into commands
+   * 
+   * Cheaper and more honest than calling buildCommand and catching the error.
+   * 
+   * Predicate routes need an actual event to decide, so they're only checked
+   * when you pass one. The fallback never counts - "yes, the fallback will
+   * record it" isn't what anyone asking this question wants to hear.
+   * 
+   * @param eventOrType The event (or just its type) to check
+   * @returns True if an exact factory, a glob route or (given an event) a predicate route handles it
+   */
+  hasHandler(eventOrType: string | TransactionEvent): boolean {
+    const eventType = typeof eventOrType === 'string' ? eventOrType : eventOrType.type;
+    if (this.commandFactories.has(eventType) || this.globRoutes.some(route => matchesGlob(route.pattern, eventType))) {
+      return true;
+    }
+    return typeof eventOrType !== 'string' && this.predicateRoutes.some(route => route.matches(eventOrType));
+  }
+  
+  /**
+   * Lists the event types this builder can handle
+   * 
+   * Glob routes are listed by their pattern, after the exact types. Predicate
+   * routes and the fallback aren't listed - there's no event type to name.
+   * 
+   * @returns The event types with a registered factory, then the glob patterns, each in registration order
    */
-  registerCommandFactory(eventType: string, factory: (event: TransactionEvent) => TransactionCommand): void {
-    this.commandFactories.set(eventType, factory);
+  getRegisteredEventTypes(): string[] {
+    return [...this.commandFactories.keys(), ...this.globRoutes.map(route => route.pattern)];
   }
   
   /**
@@ -98,16 +313,142 @@ export class ShadowTransactionCommandBuilder implements TransactionCommandBuilde
    * @returns A command decorated with all registered hooks
    */
   buildCommand(event: TransactionEvent): TransactionCommand {
-    // Find the factory for this event type
-    const factory = this.commandFactories.get(event.type);
-    if (!factory) {
-      throw new Error(`No command factory registered for event type: ${event.type}`);
+    const commands = this.buildCommands(event);
+    if (commands.length > 1) {
+      throw new Error(`Event type ${event.type} has ${commands.length} handlers - use buildCommands() to build all of them`);
+    }
+    return commands[0];
+  }
+  
+  /**
+   * Builds one command per handler of the event, each with its own hooks
+   * 
+   * Every command gets its own hook-wrapped invocation, so each handler is
+   * validated, timed, counted and error-handled on its own. One handler failing
+   * doesn't take the others down with it - that's the transaction manager's
+   * call, not the builder's.
+   * 
+   * @param event The event to build commands for
+   * @returns The decorated commands, in handler registration order
+   */
+  buildCommands(event: TransactionEvent): TransactionCommand[] {
+    // Find the factories for this event - exact type, then glob, then predicate, then fallback
+    const factories = this.findFactories(event);
+    if (factories.length === 0) {
+      throw new UnhandledEventError(event.type);
+    }
+    
+    const hooks = this.hooks.filter(entry => appliesTo(entry.options, event));
+    const timeoutMs = this.eventTypeTimeouts.get(event.type) ?? this.defaultTimeoutMs;
+    // Create the base commands and wrap them with the hooks that apply to this event
+    return factories.map(factory => this.wrapWithHooks(factory(event), hooks, timeoutMs, this.retryPolicy));
+  }
+  
+  /**
+   * Returns a builder that gives commands a time limit
+   * 
+   * A command that hangs on a dead downstream service holds its scope, its
+   * collector and its slot in whatever's processing events for as long as the
+   * socket feels like staying open. I've seen one stuck call back up an entire
+   * queue. With a timeout, the command's signal is aborted when time's up and
+   * the invocation fails with a CommandTimeoutError - error and finally hooks
+   * still run, so the failure is logged and counted like any other.
+   * 
+   * Aborting is cooperative: a command that ignores context.signal keeps
+   * running in the background, but nobody waits for it any more.
+   * 
+   *   builder.withTimeout(5000).withTimeout(2000, { eventTypes: ['MATCH_STORE_TO_PRODUCT'] });
+   * 
+   * @param ms How long commands may run, including their pre, around and post hooks
+   * @param options Limit the timeout to some event types (otherwise it's the default)
+   * @returns A new builder with the timeout
+   */
+  withTimeout(ms: number, options: TimeoutOptions = {}): TransactionCommandBuilder {
+    if (!Number.isFinite(ms) || ms <= 0) {
+      throw new Error(`Timeout must be a positive number of milliseconds, got ${ms}`);
     }
     
-    // Create the base command
-    const baseCommand = factory(event);
-    // Wrap it with all hooks
-    return this.wrapWithHooks(baseCommand);
+    const newBuilder = this.derive(this.hooks);
+    if (options.eventTypes) {
+      options.eventTypes.forEach(eventType => newBuilder.eventTypeTimeouts.set(eventType, ms));
+    } else {
+      newBuilder.defaultTimeoutMs = ms;
+    }
+    return newBuilder;
+  }
+  
+  /**
+   * Returns a builder that retries commands that fail with a transient error
+   * 
+   * Downstream services have bad seconds - a dropped connection, a deadlock
+   * victim, a timeout because the database was vacuuming. Failing the event
+   * for that is silly when trying again a moment later would have worked:
+   * 
+   *   builder.withRetry({ maxAttempts: 3, backoff: { initialDelayMs: 100 }, jitter: 0.2 });
+   * 
+   * The whole chain is retried, hooks included, so every attempt is validated
+   * and authorized afresh. Validation and authorization failures are never
+   * retried - they'd fail the same way every time. Each attempt can find its
+   * number in context.state.attempt, and only the successful attempt's side
+   * effects are kept.
+   * 
+   * @param options The retry policy (replaces any earlier one)
+   * @returns A new builder with the retry policy
+   */
+  withRetry(options: RetryOptions): TransactionCommandBuilder {
+    validateRetryOptions(options);
+    const newBuilder = this.derive(this.hooks);
+    newBuilder.retryPolicy = { ...options };
+    return newBuilder;
+  }
+  
+  /**
+   * Returns a builder that handles unmatched events with a fallback factory
+   * 
+   * Throwing on an unknown event type is the right call while you're wiring
+   * things up, and the wrong one in production: the event is lost, and the
+   * first you hear of it is a customer asking where their match went. A
+   * fallback like RecordUnhandledEventCommand keeps a record of the event so
+   * somebody can decide what it should have done.
+   * 
+   * @param factory Function that creates a command for events no route matches
+   * @returns A new builder with the fallback
+   */
+  withFallbackHandler(factory: CommandFactory): TransactionCommandBuilder {
+    const newBuilder = this.derive(this.hooks);
+    newBuilder.fallbackFactory = factory;
+    return newBuilder;
+  }
+  
+  /**
+   * Lists every hook in the builder
+   * 
+   * The order is the order things actually happen in: error and finally hooks
+   * (which sit outside everything), then around hooks from the outside in, then
+   * pre hooks and post hooks - each stage sorted by priority.
+   * 
+   * @returns A description of every hook, in pipeline order per stage
+   */
+  listHooks(): HookDescriptor[] {
+    return describeHooks(this.hooks);
+  }
+  
+  /**
+   * Lists the hooks that apply to events of the given type
+   * 
+   * Handy when you're staring at a log wondering why the commission calculator
+   * didn't run: ask the builder instead of reading every hook's options. Only
+   * the event type is known here, so hooks that also filter by source or with
+   * a predicate are included and flagged as conditional - whether they run
+   * depends on the actual event.
+   * 
+   * @param eventType The event type to check
+   * @returns The applicable hooks, grouped by stage in pipeline order
+   */
+  getApplicableHooks(eventType: string): HookDescriptor[] {
+    return describeHooks(
+      this.hooks.filter(entry => !entry.options.eventTypes || entry.options.eventTypes.includes(eventType))
+    );
   }
   
   /**
@@ -126,23 +467,19 @@ export class ShadowTransactionCommandBuilder implements TransactionCommandBuilde
    * read-only commands. I've used this pattern to implement security
    * in financial systems handling millions of dollars in transactions.
    * 
+   * Scoping works the same for every withX method: pass options with
+   * eventTypes, sources or a when predicate, and the hook is only wired into
+   * commands for events that match. The commission calculator, for example,
+   * is registered for STORE_MATCHED and ASSIGN_REP only, instead of checking
+   * the event type itself.
+   * 
    * @param hook Function to run before command execution
+   * @param options Which events the hook applies to (all of them by default)
    * @returns A new builder with the additional hook
    */
-  withPreInvokeHook(hook: PreInvokeHook): TransactionCommandBuilder {
+  withPreInvokeHook(hook: PreInvokeHook, options: HookOptions = {}): TransactionCommandBuilder {
     // Create a new builder with the additional hook - immutability FTW!
-    const newBuilder = new ShadowTransactionCommandBuilder();
-    
-    // Copy over existing factories and hooks
-    this.commandFactories.forEach((factory, eventType) => {
-      newBuilder.registerCommandFactory(eventType, factory);
-    });
-    
-    // Add the new hook to the copied list
-    newBuilder.preInvokeHooks = [...this.preInvokeHooks, hook];
-    newBuilder.postInvokeHooks = [...this.postInvokeHooks];
-    
-    return newBuilder;
+    return this.withHook({ stage: 'pre', hook, options });
   }
   
   /**
@@ -156,24 +493,201 @@ export class ShadowTransactionCommandBuilder implements TransactionCommandBuilde
    * - Cleanup operations (releasing resources, closing connections)
    * 
    * @param hook Function to run after command execution
+   * @param options Which events the hook applies to (all of them by default)
    * @returns A new builder with the additional hook
    */
-  withPostInvokeHook(hook: PostInvokeHook): TransactionCommandBuilder {
+  withPostInvokeHook(hook: PostInvokeHook, options: HookOptions = {}): TransactionCommandBuilder {
     // Create a new builder with the additional hook
+    return this.withHook({ stage: 'post', hook, options });
+  }
+  
+  /**
+   * Adds a hook that wraps the whole invocation
+   * 
+   * This is the one I reach for when pre and post hooks aren't enough. The hook
+   * receives `next`, which runs everything inside it - later around hooks, all
+   * the pre hooks, the command and all the post hooks. Around hooks nest in
+   * registration order: the first one added is the outermost, so it sees
+   * (and times, and catches errors from) everything the others do.
+   * 
+   * What you can do with it:
+   * - Timing and tracing: record a start time, await next(), record the end
+   * - Cleanup: try { await next() } finally { release() }
+   * - Short-circuiting: return without calling next() (cache hits, feature flags)
+   * - Retrying: call next() again if it threw - it reruns the whole inner pipeline
+   * - Transactions: begin, await next(), commit - or roll back if it threw
+   * 
+   * @param hook Middleware that wraps the invocation
+   * @param options Which events the hook applies to (all of them by default)
+   * @returns A new builder with the additional hook
+   */
+  withAroundHook(hook: AroundInvokeHook, options: HookOptions = {}): TransactionCommandBuilder {
+    return this.withHook({ stage: 'around', hook, options });
+  }
+  
+  /**
+   * Adds a hook that runs when the invocation throws
+   * 
+   * Without this, an exception anywhere in the pipeline skips every post hook
+   * and lands in the transaction manager with no chance for the capabilities
+   * to react. Error hooks run in registration order, outside all the around
+   * hooks, so they see errors from every hook as well as from the command.
+   * 
+   * Each one can let the error through, throw a replacement (translating a
+   * driver error into a domain error, say), or return `{ recovered: true }` to
+   * turn the failure into a success - see ErrorHook for the details.
+   * 
+   * @param hook Function to run when the invocation fails
+   * @param options Which events the hook applies to (all of them by default)
+   * @returns A new builder with the additional hook
+   */
+  withErrorHook(hook: ErrorHook, options: HookOptions = {}): TransactionCommandBuilder {
+    return this.withHook({ stage: 'error', hook, options });
+  }
+  
+  /**
+   * Adds a hook that always runs after the invocation
+   * 
+   * The try/finally of the hook world. Finally hooks run in registration order
+   * after the error hooks, and receive the error if the invocation still failed.
+   * Every finally hook runs even if an earlier one throws; an error from a
+   * finally hook only surfaces when the invocation itself succeeded, because
+   * I'd rather see the original failure than a cleanup failure it caused.
+   * 
+   * @param hook Function to run after every invocation
+   * @param options Which events the hook applies to (all of them by default)
+   * @returns A new builder with the additional hook
+   */
+  withFinallyHook(hook: FinallyHook, options: HookOptions = {}): TransactionCommandBuilder {
+    return this.withHook({ stage: 'finally', hook, options });
+  }
+  
+  /**
+   * Returns a builder without the named hook
+   * 
+   * This is what makes a base stack reusable. Instead of hand-building a
+   * near-copy of the standard stack for every scenario, start from the standard
+   * one and take away what you don't want:
+   * 
+   *   const lightweight = standardBuilder.withoutHook('metrics').withoutHook('auth');
+   * 
+   * @param name The name the hook was registered with
+   * @returns A new builder without the hook
+   * @throws If no hook has that name - a typo should fail loudly, not leave the hook in
+   */
+  withoutHook(name: string): TransactionCommandBuilder {
+    this.findHook(name);
+    return this.derive(this.hooks.filter(entry => entry.options.name !== name));
+  }
+  
+  /**
+   * Returns a builder with the named hook swapped for another one
+   * 
+   * The replacement takes over the original's stage, options and priority, so
+   * it runs in exactly the same spot - perfect for swapping a real service
+   * hook for a fake in tests, or a stricter validator in one environment.
+   * 
+   * It has to be the same kind of hook as the one it replaces, which is why
+   * the stage is spelled out: a pre hook and an around hook are both just
+   * functions at runtime, and a mix-up would otherwise only show up when a
+   * command runs, as "next is not a function".
+   * 
+   * @param name The name the hook was registered with
+   * @param stage The stage of the hook being replaced
+   * @param hook The hook to use instead
+   * @returns A new builder with the hook replaced
+   * @throws If no hook has that name, or it runs in a different stage
+   */
+  replaceHook<S extends HookStage>(name: string, stage: S, hook: HookByStage[S]): TransactionCommandBuilder {
+    const existing = this.findHook(name);
+    if (existing.stage !== stage) {
+      throw new Error(`Hook '${name}' runs in the ${existing.stage} stage - it can't be replaced with a hook for the ${stage} stage`);
+    }
+    // The stage check above is what makes this pairing safe
+    const replacement = { ...existing, hook } as HookEntry;
+    return this.derive(this.hooks.map(entry => (entry === existing ? replacement : entry)));
+  }
+  
+  /**
+   * Creates a copy of this builder with one more hook
+   * 
+   * Every withX method ends up here. Names have to be unique, otherwise
+   * withoutHook and replaceHook wouldn't know which hook you mean.
+   */
+  private withHook(entry: HookEntry): ShadowTransactionCommandBuilder {
+    const name = entry.options.name;
+    if (name !== undefined && this.hooks.some(existing => existing.options.name === name)) {
+      throw new Error(`A hook named '${name}' is already registered - use replaceHook() to swap it`);
+    }
+    return this.derive([...this.hooks, { ...entry, options: { ...entry.options } } as HookEntry]);
+  }
+  
+  /**
+   * Creates a copy of this builder with a different hook list
+   * 
+   * This is what keeps the builders immutable: the copy gets its own hook
+   * list, so it can be changed without the original ever noticing.
+   */
+  private derive(hooks: HookEntry[]): ShadowTransactionCommandBuilder {
     const newBuilder = new ShadowTransactionCommandBuilder();
     
     // Copy over existing factories and hooks
-    this.commandFactories.forEach((factory, eventType) => {
-      newBuilder.registerCommandFactory(eventType, factory);
-    });
-    
-    // Add the new hook to the copied list
-    newBuilder.preInvokeHooks = [...this.preInvokeHooks];
-    newBuilder.postInvokeHooks = [...this.postInvokeHooks, hook];
+    newBuilder.commandFactories = new Map(
+      [...this.commandFactories].map(([eventType, entries]) => [eventType, [...entries]])
+    );
+    newBuilder.globRoutes = [...this.globRoutes];
+    newBuilder.predicateRoutes = [...this.predicateRoutes];
+    newBuilder.fallbackFactory = this.fallbackFactory;
+    newBuilder.defaultTimeoutMs = this.defaultTimeoutMs;
+    newBuilder.eventTypeTimeouts = new Map(this.eventTypeTimeouts);
+    newBuilder.retryPolicy = this.retryPolicy;
+    newBuilder.hooks = hooks;
     
     return newBuilder;
   }
   
+  /**
+   * Finds the factories for an event, following the routing precedence
+   * 
+   * @returns The factories to use - several only for fan-out on an exact type,
+   * none if nothing (not even a fallback) matches
+   */
+  private findFactories(event: TransactionEvent): CommandFactory[] {
+    const exact = this.commandFactories.get(event.type);
+    if (exact && exact.length > 0) {
+      return exact.map(entry => entry.factory);
+    }
+    
+    // Sorts are stable, so equal routes keep their registration order
+    const glob = this.globRoutes
+      .filter(route => matchesGlob(route.pattern, event.type))
+      .sort((a, b) => a.priority - b.priority || literalLength(b.pattern) - literalLength(a.pattern))[0];
+    if (glob) {
+      return [glob.factory];
+    }
+    
+    const predicate = [...this.predicateRoutes]
+      .sort((a, b) => a.priority - b.priority)
+      .find(route => route.matches(event));
+    if (predicate) {
+      return [predicate.factory];
+    }
+    
+    return this.fallbackFactory ? [this.fallbackFactory] : [];
+  }
+  
+  /**
+   * Finds a hook by name, or throws
+   */
+  private findHook(name: string): HookEntry {
+    const entry = this.hooks.find(candidate => candidate.options.name === name);
+    if (!entry) {
+      const known = this.hooks.map(candidate => candidate.options.name).filter(Boolean);
+      throw new Error(`No hook named '${name}' (named hooks: ${known.length > 0 ? known.join(', ') : 'none'})`);
+    }
+    return entry;
+  }
+  
   /**
    * Wraps a command with all registered hooks
    * 
@@ -191,27 +705,309 @@ export class ShadowTransactionCommandBuilder implements TransactionCommandBuilde
    * and performance monitoring to legacy systems without touching their core code.
    * It's like a superpower for maintaining old codebases.
    * 
+   * Under the hood everything is one middleware chain. Around hooks come first
+   * (outermost first), then every pre hook becomes a link that runs the hook and
+   * then next(), and every post hook becomes a link that runs next() and then the
+   * hook. Post links are added in reverse, because the innermost one finishes
+   * first - that way post hooks still run in registration order.
+   * 
+   * Error and finally hooks sit outside the whole chain: if anything in it
+   * throws, the error hooks get a go, and the finally hooks run no matter what.
+   * Retries and the timeout sit between the two. The retry policy runs the
+   * chain as many times as it takes, each attempt against its own timeout,
+   * and only the final outcome reaches the error and finally hooks - a
+   * command that succeeds on its second attempt is a success, and is
+   * counted once.
+   * 
    * @param command The original command to wrap
+   * @param entries The hooks that apply to the command's event
+   * @param timeoutMs How long each attempt may run (no limit if undefined)
+   * @param retry How failed attempts are retried (not at all if undefined)
    * @returns A decorated command that includes all hooks
    */
-  private wrapWithHooks(command: TransactionCommand): TransactionCommand {
+  private wrapWithHooks(
+    command: TransactionCommand,
+    entries: HookEntry[],
+    timeoutMs?: number,
+    retry?: RetryOptions
+  ): TransactionCommand {
+    const errorHooks = hooksAt(entries, 'error');
+    const finallyHooks = hooksAt(entries, 'finally');
+    const chain: ChainLink[] = [
+      ...entriesAt(entries, 'around').map(entry => ({ origin: originOf(entry), hook: entry.hook })),
+      ...entriesAt(entries, 'pre').map((entry): ChainLink => ({
+        origin: originOf(entry),
+        hook: async (command, context, next) => {
+          await entry.hook(command, context);
+          await next();
+        }
+      })),
+      ...entriesAt(entries, 'post').reverse().map((entry): ChainLink => ({
+        origin: originOf(entry),
+        hook: async (command, context, next) => {
+          await next();
+          await entry.hook(command, context);
+        }
+      }))
+    ];
+    const commandOrigin = `command ${command.constructor.name}`;
+    
+    // Each link's next() runs the rest of the chain, ending with the command itself.
+    // It builds a fresh call every time, so a link can call next() more than once.
+    // Errors are stamped with the link they came out of, so a dead letter can say
+    // whether the auth hook or the command gave up.
+    const dispatch = async (index: number, context: CommandContext): Promise<void> => {
+      const link = chain[index];
+      try {
+        if (!link) {
+          // Execute the actual command (core business logic)
+          return await command.invoke(context);
+        }
+        return await link.hook(command, context, () => dispatch(index + 1, context));
+      } catch (error) {
+        recordFailureOrigin(error, link ? link.origin : commandOrigin);
+        throw error;
+      }
+    };
+    
+    // One run through the chain, against the clock if there's a timeout
+    const attempt = async (context: CommandContext): Promise<void> => {
+      if (timeoutMs === undefined) {
+        return dispatch(0, context);
+      }
+      
+      const timeout = startTimeout(command, context, timeoutMs);
+      try {
+        const running = dispatch(0, timeout.context);
+        // Whoever loses the race still settles later - don't let that go unhandled
+        running.catch(() => undefined);
+        await Promise.race([running, timeout.expired]);
+      } finally {
+        timeout.clear();
+      }
+    };
+    
     // Return a decorated command that includes all hooks
     return {
       commandId: command.commandId,
       invoke: async (context: CommandContext) => {
-        // Execute pre-invoke hooks in registration order
-        for (const hook of this.preInvokeHooks) {
-          await hook(command, context);
+        let failure: Error | undefined;
+        try {
+          if (retry) {
+            await runWithRetry(retry, context, attempt);
+          } else {
+            await attempt(context);
+          }
+        } catch (error) {
+          failure = await runErrorHooks(errorHooks, command, context, toError(error));
         }
         
-        // Execute the actual command (core business logic)
-        await command.invoke(context);
+        let finallyFailure: Error | undefined;
+        for (const hook of finallyHooks) {
+          try {
+            await hook(command, context, failure);
+          } catch (error) {
+            finallyFailure = finallyFailure ?? toError(error);
+          }
+        }
         
-        // Execute post-invoke hooks in registration order
-        for (const hook of this.postInvokeHooks) {
-          await hook(command, context);
+        if (failure) {
+          throw failure;
+        }
+        if (finallyFailure) {
+          throw finallyFailure;
         }
       }
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A running timeout for one invocation
+ */
+interface RunningTimeout {
+  /** The context to invoke with - same state and collector, its own signal and deadline */
+  context: CommandContext;
+  /** Rejects when the signal aborts (the timeout fired, or the caller's signal did) */
+  expired: Promise<never>;
+  /** Stops the timer and detaches from the caller's signal */
+  clear(): void;
+}
+
+/**
+ * Starts the clock on an invocation
+ * 
+ * The command gets its own AbortController, chained to the caller's signal, so
+ * the timeout can abort the command without aborting anything the caller
+ * shares with other commands - and the caller giving up still reaches the
+ * command.
+ */
+function startTimeout(command: TransactionCommand, context: CommandContext, timeoutMs: number): RunningTimeout {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(context.signal.reason);
+  if (context.signal.aborted) {
+    forwardAbort();
+  } else {
+    context.signal.addEventListener('abort', forwardAbort, { once: true });
+  }
+  
+  const timer = setTimeout(
+    () => controller.abort(new CommandTimeoutError(command.commandId, context.event.type, timeoutMs)),
+    timeoutMs
+  );
+  const expired = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) {
+      reject(abortReason(controller.signal));
+      return;
+    }
+    controller.signal.addEventListener('abort', () => reject(abortReason(controller.signal)), { once: true });
+  });
+  // Nothing awaits this once the invocation has finished
+  expired.catch(() => undefined);
+  
+  return {
+    context: {
+      ...context,
+      signal: controller.signal,
+      deadline: new Date(Date.now() + timeoutMs)
+    },
+    expired,
+    clear: () => {
+      clearTimeout(timer);
+      context.signal.removeEventListener('abort', forwardAbort);
+    }
+  };
+}
+
+/**
+ * Gives every error hook a chance to handle a failed invocation
+ * 
+ * @param errorHooks The error hooks that apply, in registration order
+ * @param command The command that failed
+ * @param context The execution context
+ * @param error The error the invocation threw
+ * @returns The error to propagate, or undefined if a hook recovered
+ */
+async function runErrorHooks(
+  errorHooks: ErrorHook[],
+  command: TransactionCommand,
+  context: CommandContext,
+  error: Error
+): Promise<Error | undefined> {
+  let current = error;
+  for (const hook of errorHooks) {
+    try {
+      const result = await hook(command, context, current);
+      if (result && result.recovered) {
+        return undefined;
+      }
+    } catch (replacement) {
+      // The hook threw - its error replaces the original for the hooks that follow
+      current = toError(replacement);
+    }
+  }
+  return current;
+}
+
+/**
+ * Picks the entries of one stage out of a hook list, sorted by priority
+ * 
+ * The sort is stable, so hooks with the same priority keep their registration order.
+ */
+function entriesAt<S extends HookStage>(entries: HookEntry[], stage: S): Extract<HookEntry, { stage: S }>[] {
+  return entries
+    .filter((entry): entry is Extract<HookEntry, { stage: S }> => entry.stage === stage)
+    .sort((a, b) => (a.options.priority ?? 0) - (b.options.priority ?? 0));
+}
+
+/**
+ * Picks the hooks of one stage out of a hook list, in the order they run
+ */
+function hooksAt<S extends HookStage>(entries: HookEntry[], stage: S): HookAt<S>[] {
+  return entriesAt(entries, stage).map(entry => entry.hook as HookAt<S>);
+}
+
+/**
+ * Describes hooks for listHooks/getApplicableHooks, in pipeline order per stage
+ */
+function describeHooks(entries: HookEntry[]): HookDescriptor[] {
+  const stages: HookStage[] = ['error', 'finally', 'around', 'pre', 'post'];
+  return stages.flatMap(stage =>
+    entriesAt(entries, stage).map(entry => ({
+      stage,
+      name: entry.options.name || entry.hook.name || 'anonymous',
+      priority: entry.options.priority ?? 0,
+      eventTypes: entry.options.eventTypes,
+      conditional: Boolean(entry.options.sources || entry.options.when)
+    }))
+  );
+}
+
+/**
+ * Describes where a hook sits, for failure reports
+ */
+function originOf(entry: HookEntry): string {
+  return `${entry.stage} hook '${entry.options.name || entry.hook.name || 'anonymous'}'`;
+}
+
+/**
+ * Checks a hook's scoping options against an event
+ * 
+ * Every filter that's present has to match; a hook without filters applies
+ * to everything.
+ */
+function appliesTo(options: HookOptions, event: TransactionEvent): boolean {
+  if (options.eventTypes && !options.eventTypes.includes(event.type)) {
+    return false;
+  }
+  if (options.sources && !options.sources.some(pattern => matchesPattern(pattern, event.metadata?.source))) {
+    return false;
+  }
+  if (options.when && !options.when(event)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Matches a value against a string pattern (with * wildcards) or a RegExp
+ * 
+ * A RegExp with the g or y flag remembers where its last match ended
+ * (lastIndex) and starts the next test() from there - so /abc/g matches every
+ * other event. Resetting it first makes every test start from the beginning.
+ */
+function matchesPattern(pattern: string | RegExp, value: string | undefined): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  }
+  return matchesGlob(pattern, value);
+}
+
+/**
+ * Matches a value against a glob where * stands for any run of characters
+ */
+function matchesGlob(pattern: string, value: string): boolean {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(value);
+}
+
+/**
+ * How specific a glob is - the number of characters that aren't wildcards
+ */
+function literalLength(pattern: string): number {
+  return pattern.replace(/\*/g, '').length;
+}
+
+/**
+ * Normalizes whatever was thrown into an Error
+ * 
+ * JavaScript lets you throw anything, and somebody always does. Hooks are
+ * promised an Error, so strings and other oddities get wrapped.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,277 @@
+import { ServiceDefinition, ServiceIdentifier, ServiceLifetime } from './di-container';
+
+/**
+ * Container Graph - Validation and Visualization of DI Registrations
+ * 
+ * A DI container moves wiring mistakes from compile time to resolve time. That's
+ * the price of the flexibility, and I've paid it at 3AM more than once: a missing
+ * registration that only blows up on the one code path nobody exercised in staging.
+ * 
+ * This file takes the registrations out of the container as a plain graph -
+ * one node per binding, one edge per declared dependency - and lets you:
+ * 1. Validate it without creating a single service (missing registrations,
+ *    cycles, captive dependencies, broken definitions)
+ * 2. Render it as Graphviz DOT or Mermaid, so you can actually look at it
+ * 
+ * The graph only knows what the registrations declare. useClass dependencies come
+ * from `deps` or the class's static `inject`; a factory's edges only show up if the
+ * factory declares them in `deps` too. Declare them - the validator can't check
+ * what it can't see.
+ */
+
+/**
+ * DependencyGraphNode - One binding in the container
+ */
+export interface DependencyGraphNode {
+  /** Unique key for the binding within the graph */
+  key: string;
+  /** Token the binding is registered under */
+  id: ServiceIdentifier;
+  /** Human readable label, e.g. LOGGER or VALIDATION_SERVICE[strict] */
+  label: string;
+  /** Effective lifetime (transient when the definition doesn't say) */
+  lifetime: ServiceLifetime;
+  /** The registration itself */
+  definition: ServiceDefinition;
+}
+
+/**
+ * DependencyGraphEdge - A declared dependency between two bindings
+ */
+export interface DependencyGraphEdge {
+  /** Key of the node that has the dependency */
+  from: string;
+  /** Key of the binding the dependency resolves to, undefined when nothing is registered */
+  to?: string;
+  /** The token that was depended on */
+  dependency: ServiceIdentifier;
+}
+
+/**
+ * DependencyGraph - Everything the container knows about its wiring
+ */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
+
+/** The kinds of problems validation can find */
+export type ContainerIssueKind =
+  | 'missing-registration'
+  | 'circular-dependency'
+  | 'captive-dependency'
+  | 'invalid-definition';
+
+/**
+ * ContainerIssue - One problem found in the registration graph
+ */
+export interface ContainerIssue {
+  /** What kind of problem this is */
+  kind: ContainerIssueKind;
+  /** Label of the binding the problem was found on */
+  service: string;
+  /** Human readable description */
+  message: string;
+  /** For cycles, the labels along the cycle (first and last are the same) */
+  path?: string[];
+}
+
+/**
+ * ContainerValidationReport - The result of validating a container
+ */
+export interface ContainerValidationReport {
+  /** True when no issues were found */
+  valid: boolean;
+  issues: ContainerIssue[];
+}
+
+/**
+ * ContainerValidationError - Thrown by callers that want validation to be fatal
+ */
+export class ContainerValidationError extends Error {
+  /**
+   * @param report The failed validation report
+   */
+  constructor(public readonly report: ContainerValidationReport) {
+    super(
+      `Container validation failed with ${report.issues.length} issue(s):\n` +
+      report.issues.map(issue => `  - [${issue.kind}] ${issue.message}`).join('\n')
+    );
+    this.name = 'ContainerValidationError';
+  }
+}
+
+/**
+ * Validates a dependency graph
+ * 
+ * Nothing gets instantiated - this is a pure walk over the declared wiring,
+ * which makes it cheap enough to run in a test on every CI build.
+ * 
+ * @param graph The graph to validate
+ * @returns A report listing every issue found
+ */
+export function validateDependencyGraph(graph: DependencyGraph): ContainerValidationReport {
+  const nodes = new Map(graph.nodes.map(node => [node.key, node]));
+  const issues: ContainerIssue[] = [];
+
+  // 1. Definitions that can't produce anything (or can't decide how to)
+  for (const node of graph.nodes) {
+    const providers = [
+      node.definition.useClass && 'useClass',
+      node.definition.useFactory && 'useFactory',
+      node.definition.useValue !== undefined && 'useValue'
+    ].filter(Boolean);
+    if (providers.length === 0) {
+      issues.push({
+        kind: 'invalid-definition',
+        service: node.label,
+        message: `${node.label} has no useClass, useFactory or (defined) useValue`
+      });
+    } else if (providers.length > 1) {
+      issues.push({
+        kind: 'invalid-definition',
+        service: node.label,
+        message: `${node.label} declares more than one provider (${providers.join(', ')})`
+      });
+    }
+  }
+
+  // 2. Dependencies on tokens nobody registered, and 3. captive dependencies
+  for (const edge of graph.edges) {
+    const from = nodes.get(edge.from)!;
+    if (!edge.to) {
+      issues.push({
+        kind: 'missing-registration',
+        service: from.label,
+        message: `${from.label} depends on ${edge.dependency.description ?? String(edge.dependency)}, which is not registered`
+      });
+      continue;
+    }
+
+    // A singleton that holds on to a shorter-lived service keeps it alive forever -
+    // the "one per event" collector quietly becomes "one for the whole app"
+    const to = nodes.get(edge.to)!;
+    const capturable = to.lifetime !== 'singleton' && to.definition.useValue === undefined;
+    if (from.lifetime === 'singleton' && capturable) {
+      issues.push({
+        kind: 'captive-dependency',
+        service: from.label,
+        message: `Singleton ${from.label} depends on ${to.lifetime} ${to.label}, which it would hold on to forever`
+      });
+    }
+  }
+
+  // 4. Cycles
+  for (const cycle of findCycles(graph)) {
+    const path = cycle.map(key => nodes.get(key)!.label);
+    issues.push({
+      kind: 'circular-dependency',
+      service: path[0],
+      message: `Circular dependency: ${path.join(' -> ')}`,
+      path
+    });
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Finds every distinct cycle in the graph with a depth-first search
+ * 
+ * @param graph The graph to search
+ * @returns Each cycle as a list of node keys, first and last being the same node
+ */
+function findCycles(graph: DependencyGraph): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (edge.to) {
+      adjacency.set(edge.from, [...(adjacency.get(edge.from) ?? []), edge.to]);
+    }
+  }
+
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (key: string): void => {
+    if (done.has(key)) {
+      return;
+    }
+    const onStack = stack.indexOf(key);
+    if (onStack >= 0) {
+      const cycle = [...stack.slice(onStack), key];
+      // The same cycle is found once from each of its members - keep one copy
+      const signature = [...cycle.slice(1)].sort().join('|');
+      if (!seen.has(signature)) {
+        seen.add(signature);
+        cycles.push(cycle);
+      }
+      return;
+    }
+
+    stack.push(key);
+    for (const next of adjacency.get(key) ?? []) {
+      visit(next);
+    }
+    stack.pop();
+    done.add(key);
+  };
+
+  graph.nodes.forEach(node => visit(node.key));
+  return cycles;
+}
+
+/**
+ * Renders a dependency graph as Graphviz DOT
+ * 
+ * Pipe it through `dot -Tsvg` and you get a picture of the whole composition root.
+ * Missing registrations show up as red dashed boxes.
+ * 
+ * @param graph The graph to render
+ * @returns DOT source
+ */
+export function toDot(graph: DependencyGraph): string {
+  const lines = ['digraph DIContainer {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    lines.push(`  "${node.key}" [label="${node.label}\\n(${node.lifetime})"];`);
+  }
+  for (const edge of graph.edges) {
+    if (edge.to) {
+      lines.push(`  "${edge.from}" -> "${edge.to}";`);
+    } else {
+      const missing = `missing:${edge.dependency.description ?? String(edge.dependency)}`;
+      lines.push(`  "${missing}" [label="${missing}", color=red, style=dashed];`);
+      lines.push(`  "${edge.from}" -> "${missing}" [color=red, style=dashed];`);
+    }
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a dependency graph as a Mermaid flowchart
+ * 
+ * Drop it into a markdown file (like the README) and GitHub renders it for you.
+ * 
+ * @param graph The graph to render
+ * @returns Mermaid source
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  // Mermaid node ids have to be plain identifiers
+  const ids = new Map(graph.nodes.map((node, index) => [node.key, `n${index}`]));
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    lines.push(`    ${ids.get(node.key)}["${node.label} (${node.lifetime})"]`);
+  }
+  graph.edges.forEach((edge, index) => {
+    if (edge.to) {
+      lines.push(`    ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    } else {
+      const missing = edge.dependency.description ?? String(edge.dependency);
+      lines.push(`    missing${index}["missing: ${missing}"]`);
+      lines.push(`    ${ids.get(edge.from)} -.-> missing${index}`);
+    }
+  });
+  return lines.join('\n');
+}
@@ -29,6 +29,38 @@
  * responsibilities rather than managing dependencies.
  */
 
+import {
+  ConfigService,
+  Logger,
+  MetricsService,
+  ValidationService,
+  AuthService,
+  CircuitBreakerService,
+  DeadLetterQueue,
+  IdempotencyStore,
+  EventDispatcher,
+  EventCollector,
+  TransactionCommandBuilder,
+  TransactionManager,
+  PreInvokeHook,
+  PostInvokeHook,
+  AroundInvokeHook,
+  ErrorHook,
+  FinallyHook,
+  HookBinding,
+  CommandRegistration
+} from './types';
+import {
+  DependencyGraph,
+  DependencyGraphNode,
+  DependencyGraphEdge,
+  ContainerValidationReport,
+  validateDependencyGraph,
+  toDot,
+  toMermaid
+} from './container-graph';
+import { ContainerModule, ModuleConflictError } from './container-module';
+
 /** 
  * ServiceIdentifier - A unique token that identifies a service in the container
  * 
@@ -37,47 +69,315 @@
  */
 export type ServiceIdentifier = symbol;
 
+/** Phantom key that carries a token's service type - it never exists at runtime */
+declare const serviceType: unique symbol;
+
+/**
+ * ServiceToken - A service identifier that knows what it resolves to
+ * 
+ * At runtime a token is still just a symbol. At compile time it carries the
+ * service interface, so register() and resolve() can be checked against it.
+ * This is the same trick Angular plays with InjectionToken<T>: the token is
+ * the single source of truth for the type, instead of every caller writing
+ * resolve<Whatever>() and hoping they picked the right one.
+ */
+export type ServiceToken<T> = ServiceIdentifier & { readonly [serviceType]?: T };
+
+/**
+ * Creates a typed service token
+ * 
+ * @param description Name shown in error messages and debugging output
+ * @returns A unique token that resolves to a T
+ */
+export function createServiceToken<T>(description: string): ServiceToken<T> {
+  return Symbol(description) as ServiceToken<T>;
+}
+
+/**
+ * Returns a human readable name for a service identifier
+ * 
+ * @param id The service identifier
+ * @returns The symbol's description, e.g. "LOGGER"
+ */
+export function describeService(id: ServiceIdentifier): string {
+  return id.description ?? String(id);
+}
+
+/**
+ * Formats a resolution path as "A -> B -> C"
+ * 
+ * @param path Service identifiers, outermost first
+ * @returns The formatted path
+ */
+function formatResolutionPath(path: ServiceIdentifier[]): string {
+  return path.map(describeService).join(' -> ');
+}
+
+/**
+ * ServiceNotRegisteredError - Thrown when nothing is registered for an identifier
+ * 
+ * When the missing service was asked for by another service, the message names
+ * the requester and the whole chain that led there. "Service not registered: LOGGER"
+ * is useless in a big composition root; "...requested by METRICS_SERVICE" is not.
+ */
+export class ServiceNotRegisteredError extends Error {
+  /**
+   * @param serviceId The identifier that has no registration
+   * @param resolutionPath The services being resolved when the lookup failed, outermost first
+   * @param bindingName The binding name that was asked for, if any
+   */
+  constructor(
+    public readonly serviceId: ServiceIdentifier,
+    public readonly resolutionPath: ServiceIdentifier[] = [],
+    public readonly bindingName?: string
+  ) {
+    const requestedBy = resolutionPath[resolutionPath.length - 1];
+    const service = bindingName === undefined
+      ? describeService(serviceId)
+      : `${describeService(serviceId)} (named '${bindingName}')`;
+    super(
+      requestedBy === undefined
+        ? `Service not registered: ${service}`
+        : `Service not registered: ${service} ` +
+          `(requested by ${describeService(requestedBy)}, ` +
+          `resolution path: ${formatResolutionPath([...resolutionPath, serviceId])})`
+    );
+    this.name = 'ServiceNotRegisteredError';
+  }
+}
+
+/**
+ * CircularDependencyError - Thrown when a service (indirectly) depends on itself
+ * 
+ * Without this check a cycle between two factories just recurses until the
+ * stack blows up, and the stack trace tells you nothing about which services
+ * were involved.
+ */
+export class CircularDependencyError extends Error {
+  /**
+   * @param path The resolution path, starting and ending with the same service
+   */
+  constructor(public readonly path: ServiceIdentifier[]) {
+    super(`Circular dependency detected: ${formatResolutionPath(path)}`);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+/**
+ * AsyncServiceNotReadyError - Thrown when an async service is resolved synchronously
+ * 
+ * A synchronous resolve() can't wait for a promise, so services with async
+ * factories have to be built ahead of time by container.initialize() (or
+ * resolved with resolveAsync()) before anyone asks for them synchronously.
+ */
+export class AsyncServiceNotReadyError extends Error {
+  /**
+   * @param serviceId The identifier of the async service
+   */
+  constructor(public readonly serviceId: ServiceIdentifier) {
+    super(
+      `Service ${describeService(serviceId)} is created asynchronously and isn't initialized yet - ` +
+      `mark it eager and await container.initialize(), or use resolveAsync()`
+    );
+    this.name = 'AsyncServiceNotReadyError';
+  }
+}
+
+/**
+ * Checks whether a value is a promise (or any other thenable)
+ * 
+ * @param value The value to check
+ * @returns True if the value can be awaited
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (typeof value === 'object' || typeof value === 'function')
+    && value !== null
+    && 'then' in value
+    && typeof value.then === 'function';
+}
+
+/**
+ * Definitions whose factory has returned a promise at least once
+ * 
+ * The synchronous path can't use a promise, and calling the factory only to
+ * find that out means running it (and whatever I/O it starts) for nothing.
+ * Once a factory has shown it's async, resolve() refuses it up front.
+ */
+const asyncFactories = new WeakSet<ServiceDefinition>();
+
+/**
+ * DisposableService - A service that wants to know when it's being shut down
+ * 
+ * Implement either hook (or both - Symbol.asyncDispose wins) and the container
+ * will call it when the container or scope that created the instance is disposed.
+ * This is where metrics get flushed and file handles get closed.
+ */
+export interface DisposableService {
+  /** Releases the service's resources */
+  dispose?(): void | Promise<void>;
+  /** Standard async disposal hook, same contract as dispose() */
+  [Symbol.asyncDispose]?(): Promise<void>;
+}
+
+/**
+ * ContainerDisposalError - Thrown when one or more services fail to dispose
+ * 
+ * Disposal keeps going after a failure - one broken service shouldn't stop the
+ * rest from flushing and closing - and reports every failure at the end.
+ */
+export class ContainerDisposalError extends Error {
+  /**
+   * @param errors The errors thrown by the failing dispose hooks
+   */
+  constructor(public readonly errors: unknown[]) {
+    super(`${errors.length} service(s) failed to dispose: ${errors.map(e => String((e as Error)?.message ?? e)).join('; ')}`);
+    this.name = 'ContainerDisposalError';
+  }
+}
+
+/**
+ * Calls a service's dispose hook, if it has one
+ * 
+ * @param instance The service instance to dispose
+ */
+async function disposeInstance(instance: unknown): Promise<void> {
+  const disposable = instance as DisposableService | null | undefined;
+  if (typeof disposable?.[Symbol.asyncDispose] === 'function') {
+    await disposable[Symbol.asyncDispose]!();
+  } else if (typeof disposable?.dispose === 'function') {
+    await disposable.dispose();
+  }
+}
+
+/**
+ * InjectableClass - A class the container knows how to construct
+ * 
+ * A class can declare its own constructor dependencies with a static `inject`
+ * list, so the wiring lives next to the constructor it describes:
+ * 
+ *   class BasicAuthService {
+ *     static inject = [SERVICE_IDENTIFIERS.LOGGER];
+ *     constructor(private logger: Logger) {}
+ *   }
+ */
+export type InjectableClass<T = any> = (new (...args: any[]) => T) & {
+  inject?: ServiceIdentifier[];
+};
+
+/**
+ * ServiceLifetime - How long a resolved instance lives
+ * 
+ * Scoped sits between the other two: think "one per request" in a web app,
+ * or in our case "one per event". Everything resolved within the same scope
+ * shares the instance, and the next scope starts fresh.
+ */
+export type ServiceLifetime = 'singleton' | 'transient' | 'scoped';
+
 /**
  * ServiceDefinition - Defines how a service should be created
  * 
  * This interface shows the flexibility of our DI container by supporting
  * multiple ways to create services:
- * - Class instantiation (useClass)
+ * - Class instantiation (useClass), with constructor dependencies declared via deps
  * - Factory functions (useFactory)
  * - Existing values (useValue)
  * 
  * It also supports different lifecycles:
  * - Singleton: One instance shared throughout the application
  * - Transient: New instance created on each resolution
+ * - Scoped: One instance per scope (see DIContainer.createScope)
  */
-export interface ServiceDefinition {
+export interface ServiceDefinition<T = any> {
   /** Class to instantiate when resolving this service */
-  useClass?: new (...args: any[]) => any;
-  /** Factory function to call when resolving this service */
-  useFactory?: (container: DIContainer) => any;
+  useClass?: InjectableClass<T>;
+  /**
+   * Services to resolve and pass to the useClass constructor, in parameter order.
+   * Takes precedence over a static `inject` property declared on the class itself.
+   * 
+   * Factories resolve what they need themselves, so for useFactory this list is
+   * only declarative - but declaring it is what lets validate() and the graph
+   * exports see the factory's dependencies.
+   */
+  deps?: ServiceIdentifier[];
+  /**
+   * Factory function to call when resolving this service
+   * 
+   * May be async - such services must be resolved with resolveAsync(), or be
+   * eager singletons built by container.initialize() before anyone resolves them.
+   */
+  useFactory?: (container: DIContainer) => T | Promise<T>;
   /** Existing value to use when resolving this service */
-  useValue?: any;
-  /** Lifecycle of the service (singleton or transient) */
-  lifetime?: 'singleton' | 'transient';
+  useValue?: T;
+  /** Lifecycle of the service (singleton, transient or scoped) */
+  lifetime?: ServiceLifetime;
+  /** Build this singleton up front during container.initialize() */
+  eager?: boolean;
+  /** Name that tells this binding apart from others registered under the same token */
+  name?: string;
+  /** One of several intentional bindings for the token - never a module conflict */
+  multi?: boolean;
 }
 
 /**
  * DIContainer - The core dependency injection container
  * 
  * This class implements a simple but powerful DI container that:
- * - Registers service definitions
+ * - Registers service definitions (several per token, optionally named)
  * - Resolves services when needed
  * - Manages service lifecycles
+ * - Creates child scopes that share the parent's registrations and singletons
+ * - Runs an async bootstrap phase (initialize) for services that need I/O to start
+ * - Disposes the instances it created, in reverse creation order, on shutdown
+ * - Validates and exports its own wiring graph (see container-graph.ts)
+ * - Loads registrations grouped into modules (see container-module.ts)
  * 
  * In a production system, you might use an established DI library like
  * InversifyJS, tsyringe, or NestJS's built-in DI, but this implementation
  * shows the core concepts without external dependencies.
  */
 export class DIContainer {
-  /** Map of service definitions by their identifiers */
-  private services: Map<ServiceIdentifier, ServiceDefinition> = new Map();
-  /** Cache of singleton instances */
-  private instances: Map<ServiceIdentifier, any> = new Map();
+  /** Service definitions by their identifiers, in registration order */
+  private services: Map<ServiceIdentifier, ServiceDefinition[]> = new Map();
+  /** Cache of singleton instances registered here, plus scoped instances of this scope */
+  private instances: Map<ServiceDefinition, any> = new Map();
+  /** Cached instances this container created, in creation order, for disposal */
+  private created: any[] = [];
+  /** Set once dispose() has been called */
+  private disposed = false;
+  /** Async creations in flight, so concurrent resolveAsync calls share one instance */
+  private pending: Map<ServiceDefinition, Promise<any>> = new Map();
+  /** Services currently being resolved on this call chain, outermost first */
+  private resolutionPath: ServiceIdentifier[] = [];
+  /** Definitions currently being resolved on this call chain, parallel to resolutionPath */
+  private resolving: ServiceDefinition[] = [];
+  /** Names of the modules loaded so far */
+  private loadedModules: Set<string> = new Set();
+  /** The module whose registrations are currently being applied */
+  private loadingModule?: ContainerModule;
+  /** Which module registered each binding (bindings registered directly aren't listed) */
+  private registeredBy: Map<ServiceDefinition, string> = new Map();
+
+  /**
+   * Creates a new container
+   * 
+   * @param parent The container this one is a scope of (omit for the root container)
+   */
+  constructor(private parent?: DIContainer) {}
+
+  /**
+   * Creates a child scope
+   * 
+   * The child sees every registration of its parent. Singletons are still
+   * created and cached by the container they were registered in, so they're
+   * shared across all scopes, while scoped services get one instance per child.
+   * This is the classic "unit of work" boundary - open a scope, do the work,
+   * throw the scope away.
+   * 
+   * @returns A child container
+   */
+  createScope(): DIContainer {
+    return new DIContainer(this);
+  }
 
   /**
    * Registers a service with the container
@@ -85,11 +385,68 @@ export class DIContainer {
    * Registration is separate from resolution, allowing all services
    * to be configured at application startup before any are used.
    * 
+   * The definition is checked against the token's service type, so registering
+   * a MetricsService implementation under the LOGGER token won't compile.
+   * 
+   * Registering the same token again adds another binding rather than replacing
+   * the first one. resolve() returns the most recent binding, resolveAll()
+   * returns all of them - which is how plugin-style registrations work:
+   * 
+   *   container.register(SERVICE_IDENTIFIERS.VALIDATION_SERVICE, { useClass: StrictValidator, name: 'strict' });
+   *   container.register(SERVICE_IDENTIFIERS.VALIDATION_SERVICE, { useClass: LenientValidator, name: 'lenient' });
+   *   container.resolve(SERVICE_IDENTIFIERS.VALIDATION_SERVICE, 'strict');
+   * 
    * @param id Unique identifier for the service
    * @param definition How the service should be created
    */
-  register(id: ServiceIdentifier, definition: ServiceDefinition): void {
-    this.services.set(id, definition);
+  register<T>(id: ServiceToken<T>, definition: ServiceDefinition<T>): void {
+    let bindings = this.services.get(id) ?? [];
+
+    const module = this.loadingModule;
+    if (module) {
+      // Only module loading is policed - direct registrations keep the plain
+      // "add another binding" behavior
+      const clashes = bindings.filter(existing =>
+        existing.name === definition.name &&
+        !(existing.multi && definition.multi) &&
+        this.registeredBy.has(existing) &&
+        this.registeredBy.get(existing) !== module.name
+      );
+      if (clashes.length > 0 && !module.override) {
+        throw new ModuleConflictError(id, this.registeredBy.get(clashes[0])!, module.name);
+      }
+      bindings = bindings.filter(existing => !clashes.includes(existing));
+      this.registeredBy.set(definition, module.name);
+    }
+
+    this.services.set(id, [...bindings, definition]);
+  }
+
+  /**
+   * Loads container modules, in order
+   * 
+   * Each module registers its services as usual, but the container keeps track
+   * of which module registered what. A module registering a token another module
+   * already registered fails with a ModuleConflictError - unless both bindings
+   * are multi, their names differ, or the module is an override module, in which
+   * case its bindings replace the earlier ones.
+   * 
+   * @param modules The modules to load
+   */
+  load(...modules: ContainerModule[]): void {
+    for (const module of modules) {
+      if (this.loadedModules.has(module.name)) {
+        throw new Error(`Container module '${module.name}' is already loaded`);
+      }
+      this.loadedModules.add(module.name);
+
+      this.loadingModule = module;
+      try {
+        module.register(this);
+      } finally {
+        this.loadingModule = undefined;
+      }
+    }
   }
 
   /**
@@ -99,51 +456,470 @@ export class DIContainer {
    * it asks the container to resolve it, and the container creates or returns
    * the appropriate instance.
    * 
+   * The return type comes from the token, not from the caller, so
+   * resolve<Logger>(SERVICE_IDENTIFIERS.METRICS_SERVICE) is a compile error.
+   * 
+   * Services with async factories can only be resolved synchronously once they
+   * exist - either built by initialize() or by an earlier resolveAsync().
+   * 
    * @param id Identifier of the service to resolve
+   * @param name Name of the binding to resolve (defaults to the most recent binding)
    * @returns The resolved service instance
    */
-  resolve<T>(id: ServiceIdentifier): T {
-    const definition = this.services.get(id);
-    if (!definition) {
-      throw new Error(`Service not registered: ${String(id)}`);
+  resolve<T>(id: ServiceToken<T>, name?: string): T {
+    const { owner, definition } = this.lookup(id, name);
+    return this.resolveBinding(id, owner, definition);
+  }
+
+  /**
+   * Resolves every binding registered for a token
+   * 
+   * Bindings come back in registration order, parent scope bindings first.
+   * No bindings at all is not an error - you just get an empty list, which is
+   * exactly what you want for optional plugin points.
+   * 
+   * @param id Identifier of the services to resolve
+   * @returns One instance per binding
+   */
+  resolveAll<T>(id: ServiceToken<T>): T[] {
+    return this.bindings(id).map(({ owner, definition }) => this.resolveBinding(id, owner, definition));
+  }
+
+  /**
+   * Resolves a service, awaiting async factories along the way
+   * 
+   * Dependencies are resolved asynchronously too, so a class whose deps include
+   * an async service just works. Concurrent calls for the same singleton (or
+   * scoped service in the same scope) share a single in-flight creation.
+   * 
+   * @param id Identifier of the service to resolve
+   * @param name Name of the binding to resolve (defaults to the most recent binding)
+   * @returns A promise for the resolved service instance
+   */
+  async resolveAsync<T>(id: ServiceToken<T>, name?: string): Promise<T> {
+    const { owner, definition } = this.lookup(id, name);
+    return this.resolveBindingAsync(id, owner, definition);
+  }
+
+  /**
+   * Resolves every binding registered for a token, awaiting async factories
+   * 
+   * Bindings are created one after another, in the same order as resolveAll().
+   * 
+   * @param id Identifier of the services to resolve
+   * @returns A promise for one instance per binding
+   */
+  async resolveAllAsync<T>(id: ServiceToken<T>): Promise<T[]> {
+    const instances: T[] = [];
+    for (const { owner, definition } of this.bindings(id)) {
+      instances.push(await this.resolveBindingAsync(id, owner, definition));
+    }
+    return instances;
+  }
+
+  /**
+   * Builds every eager singleton, awaiting async factories
+   * 
+   * This is the async bootstrap phase: open files, load schemas, warm caches -
+   * all before the first event comes in. Eager singletons are built one at a
+   * time in registration order, and each one resolves its dependencies first,
+   * so everything ends up created in dependency order. After this resolves,
+   * plain synchronous resolve() works for all of them.
+   */
+  async initialize(): Promise<void> {
+    for (const [id, definitions] of this.services) {
+      for (const definition of definitions) {
+        if (definition.lifetime === 'singleton' && definition.eager) {
+          await this.resolveBindingAsync(id, this, definition);
+        }
+      }
+    }
+  }
+
+  /**
+   * Disposes every instance this container created, newest first
+   * 
+   * Reverse creation order matters: a service is always created after its
+   * dependencies, so disposing in reverse means nobody's dependencies are torn
+   * down while it might still be using them. Values registered with useValue
+   * were created by someone else, so they're left alone; transient instances
+   * aren't tracked at all - whoever resolved them owns them.
+   * 
+   * Call this on a scope when the scope's work is done, and on the root
+   * container at application shutdown. A disposed container can't resolve
+   * anything anymore.
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+
+    const instances = this.created.reverse();
+    this.created = [];
+    this.instances.clear();
+
+    const errors: unknown[] = [];
+    for (const instance of instances) {
+      try {
+        await disposeInstance(instance);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    if (errors.length > 0) {
+      throw new ContainerDisposalError(errors);
+    }
+  }
+
+  /**
+   * Dry-runs the whole registration graph
+   * 
+   * Reports missing registrations, cycles, singletons capturing transient or
+   * scoped services, and definitions that can't produce anything - without
+   * creating a single service. Run it in a test against the real composition
+   * root and wiring mistakes fail CI instead of production.
+   * 
+   * @returns The validation report
+   */
+  validate(): ContainerValidationReport {
+    return validateDependencyGraph(this.getDependencyGraph());
+  }
+
+  /**
+   * Exports the registration graph for visualization
+   * 
+   * @param format 'dot' for Graphviz, 'mermaid' for Mermaid flowcharts
+   * @returns The graph source in the requested format
+   */
+  exportGraph(format: 'dot' | 'mermaid'): string {
+    const graph = this.getDependencyGraph();
+    return format === 'dot' ? toDot(graph) : toMermaid(graph);
+  }
+
+  /**
+   * Builds the dependency graph of every binding visible from this container
+   * 
+   * A dependency on a token with several bindings gets an edge to each of them -
+   * the graph can't tell a resolve() from a resolveAll(), so it assumes the worst.
+   * 
+   * @returns One node per binding and one edge per declared dependency
+   */
+  getDependencyGraph(): DependencyGraph {
+    const ids = new Set<ServiceIdentifier>();
+    for (let container: DIContainer | undefined = this; container; container = container.parent) {
+      container.services.forEach((_, id) => ids.add(id));
+    }
+
+    const nodes: DependencyGraphNode[] = [];
+    const keysByDefinition = new Map<ServiceDefinition, string>();
+    ids.forEach(id => {
+      const bindings = this.bindings(id);
+      bindings.forEach(({ definition }, index) => {
+        const key = `${describeService(id)}#${index}`;
+        const label = definition.name !== undefined
+          ? `${describeService(id)}[${definition.name}]`
+          : bindings.length > 1 ? key : describeService(id);
+        keysByDefinition.set(definition, key);
+        nodes.push({ key, id, label, lifetime: definition.lifetime ?? 'transient', definition });
+      });
+    });
+
+    const edges: DependencyGraphEdge[] = [];
+    for (const node of nodes) {
+      const deps = node.definition.deps ?? node.definition.useClass?.inject ?? [];
+      for (const dependency of deps) {
+        const targets = this.bindings(dependency);
+        if (targets.length === 0) {
+          edges.push({ from: node.key, dependency });
+        }
+        targets.forEach(target => edges.push({
+          from: node.key,
+          to: keysByDefinition.get(target.definition),
+          dependency
+        }));
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Resolves one specific binding, creating it if it isn't cached yet
+   * 
+   * @param id Identifier of the service
+   * @param owner Container the binding is registered in
+   * @param definition The binding to resolve
+   * @returns The service instance
+   */
+  private resolveBinding<T>(id: ServiceIdentifier, owner: DIContainer, definition: ServiceDefinition<T>): T {
+    const { path, cache } = this.place(id, owner, definition);
+    if (!cache) {
+      if (asyncFactories.has(definition)) {
+        throw new AsyncServiceNotReadyError(id);
+      }
+      const instance = this.withResolutionPath(path, definition).createInstance(id, definition);
+      if (isPromiseLike(instance)) {
+        // A transient is never reused, so the promise has no one to go to
+        asyncFactories.add(definition);
+        Promise.resolve(instance).catch(() => undefined);
+        throw new AsyncServiceNotReadyError(id);
+      }
+      return instance;
+    }
+
+    if (!cache.instances.has(definition)) {
+      if (cache.pending.has(definition) || asyncFactories.has(definition)) {
+        // Someone is already building it asynchronously, or it can only be
+        // built that way - we can't wait here
+        throw new AsyncServiceNotReadyError(id);
+      }
+      const instance = cache.withResolutionPath(path, definition).createInstance(id, definition);
+      if (isPromiseLike(instance)) {
+        // Keep the creation we just started, so resolveAsync() picks it up
+        // instead of running the factory a second time
+        asyncFactories.add(definition);
+        cache.awaitCreation(definition, Promise.resolve(instance) as Promise<T>).catch(() => undefined);
+        throw new AsyncServiceNotReadyError(id);
+      }
+      cache.track(definition, instance);
+    }
+    return cache.instances.get(definition) as T;
+  }
+
+  /**
+   * Resolves one specific binding, awaiting async factories
+   * 
+   * @param id Identifier of the service
+   * @param owner Container the binding is registered in
+   * @param definition The binding to resolve
+   * @returns A promise for the service instance
+   */
+  private async resolveBindingAsync<T>(
+    id: ServiceIdentifier,
+    owner: DIContainer,
+    definition: ServiceDefinition<T>
+  ): Promise<T> {
+    const { path, cache } = this.place(id, owner, definition);
+    if (!cache) {
+      return this.withResolutionPath(path, definition).createInstanceAsync(id, definition);
+    }
+
+    if (cache.instances.has(definition)) {
+      return cache.instances.get(definition) as T;
+    }
+    const pending = cache.pending.get(definition);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    return cache.awaitCreation(definition, cache.withResolutionPath(path, definition).createInstanceAsync(id, definition));
+  }
+
+  /**
+   * Caches an instance once its async creation finishes
+   * 
+   * Until then the creation is pending, and everyone who asks shares it.
+   * A failed creation isn't cached - the next resolveAsync() tries again.
+   * 
+   * @param definition The definition the instance is created from
+   * @param creation The creation under way
+   * @returns A promise for the instance
+   */
+  private awaitCreation<T>(definition: ServiceDefinition<T>, creation: Promise<T>): Promise<T> {
+    const pending = creation
+      .then(instance => {
+        this.track(definition, instance);
+        return instance;
+      })
+      .finally(() => this.pending.delete(definition));
+    this.pending.set(definition, pending);
+    return pending;
+  }
+
+  /**
+   * Caches a newly created instance and remembers it for disposal
+   * 
+   * @param definition The definition the instance was created from
+   * @param instance The new instance
+   */
+  private track(definition: ServiceDefinition, instance: any): void {
+    this.instances.set(definition, instance);
+    if (definition.useClass || definition.useFactory) {
+      this.created.push(instance);
+    }
+  }
+
+  /**
+   * Lists every binding for a token visible from this container
+   * 
+   * @param id Identifier of the service
+   * @returns Bindings with the container that owns them, root bindings first
+   */
+  private bindings(id: ServiceIdentifier): { owner: DIContainer; definition: ServiceDefinition }[] {
+    const inherited = this.parent ? this.parent.bindings(id) : [];
+    const own = (this.services.get(id) ?? []).map(definition => ({ owner: this as DIContainer, definition }));
+    return [...inherited, ...own];
+  }
+
+  /**
+   * Finds the binding resolve() should use for a token
+   * 
+   * The nearest container with a matching binding wins, so a scope can override
+   * a registration from its parent. Within a container, the latest registration wins.
+   * 
+   * @param id Identifier of the service
+   * @param name Name of the binding, if a specific one was asked for
+   * @returns The binding and the container that owns it
+   */
+  private lookup<T>(id: ServiceToken<T>, name?: string): { owner: DIContainer; definition: ServiceDefinition<T> } {
+    if (this.disposed) {
+      throw new Error(`Cannot resolve ${describeService(id)} - the container has been disposed`);
     }
 
-    // Check if we have a singleton instance already
-    if (definition.lifetime === 'singleton' && this.instances.has(id)) {
-      return this.instances.get(id) as T;
+    for (let owner: DIContainer | undefined = this; owner; owner = owner.parent) {
+      const definitions = owner.services.get(id) ?? [];
+      const matches = name === undefined ? definitions : definitions.filter(d => d.name === name);
+      if (matches.length > 0) {
+        return { owner, definition: matches[matches.length - 1] };
+      }
+    }
+    throw new ServiceNotRegisteredError(id, this.resolutionPath, name);
+  }
+
+  /**
+   * Works out the resolution path for a binding and where its instance is cached
+   * 
+   * @param id Identifier of the service
+   * @param owner Container the binding is registered in
+   * @param definition The binding being resolved
+   * @returns The extended resolution path, and the container that caches the
+   *          instance (undefined for transient services)
+   */
+  private place(
+    id: ServiceIdentifier,
+    owner: DIContainer,
+    definition: ServiceDefinition
+  ): { path: ServiceIdentifier[]; cache?: DIContainer } {
+    // Track the chain we're resolving so cycles fail fast with a readable path.
+    // Cycles are detected per binding, so a 'strict' validator that wraps the
+    // 'lenient' one under the same token is fine.
+    const path = [...this.resolutionPath, id];
+    if (this.resolving.includes(definition)) {
+      throw new CircularDependencyError(path);
     }
 
-    // Create new instance using the appropriate method
-    let instance: T;
+    if (definition.lifetime === 'singleton') {
+      // Singletons live in the owning container and are built from there, so a
+      // singleton can never capture a service belonging to a short-lived scope
+      return { path, cache: owner };
+    }
+
+    if (definition.lifetime === 'scoped') {
+      if (!this.parent) {
+        throw new Error(
+          `Scoped service ${describeService(id)} cannot be resolved from the root container - use createScope()`
+        );
+      }
+      return { path, cache: this };
+    }
+
+    return { path };
+  }
+
+  /**
+   * Returns a view of this container that remembers a resolution path
+   * 
+   * The view shares everything with the container it was made from (registrations,
+   * caches, parent) - only the path differs. Factories receive the view, so when
+   * they call container.resolve() the nested lookup extends the path instead of
+   * starting a new one. That's what lets us catch A -> B -> A through factories,
+   * and because the path travels with the view rather than living in a shared
+   * stack, it stays correct across awaits in async factories.
+   * 
+   * @param path The services being resolved, outermost first
+   * @param definition The binding being resolved at the end of the path
+   * @returns A container view carrying the path
+   */
+  private withResolutionPath(path: ServiceIdentifier[], definition: ServiceDefinition): DIContainer {
+    const view: DIContainer = Object.create(this);
+    view.resolutionPath = path;
+    view.resolving = [...this.resolving, definition];
+    return view;
+  }
+
+  /**
+   * Creates a new instance from a service definition
+   * 
+   * Dependencies are resolved from this container, so whoever calls this
+   * decides which scope the new instance gets to see.
+   * 
+   * An async factory's promise is returned as it is - what to do with it is
+   * up to the caller, which knows whether anything can be cached.
+   * 
+   * @param id Identifier of the service being created
+   * @param definition How the service should be created
+   * @returns The new service instance, or the promise an async factory returned
+   */
+  private createInstance<T>(id: ServiceIdentifier, definition: ServiceDefinition<T>): T | Promise<T> {
+    let instance: T | Promise<T>;
     if (definition.useClass) {
-      // Class-based instantiation
-      instance = new definition.useClass() as T;
+      // Class-based instantiation - resolve the declared dependencies first and
+      // hand them to the constructor (constructor injection)
+      const deps = definition.deps ?? definition.useClass.inject ?? [];
+      const args = deps.map(dep => this.resolve(dep));
+      instance = new definition.useClass(...args);
     } else if (definition.useFactory) {
       // Factory-based instantiation (allows for more complex creation logic)
-      instance = definition.useFactory(this) as T;
-    } else if (definition.useValue) {
-      // Value-based resolution (for constants or existing instances)
-      instance = definition.useValue as T;
+      instance = definition.useFactory(this);
+    } else if (definition.useValue !== undefined) {
+      // Value-based resolution (for constants or existing instances) - falsy
+      // values like 0, '' or false are perfectly good values
+      instance = definition.useValue;
     } else {
-      throw new Error('Invalid service definition');
-    }
-
-    // Store singleton instances for future resolutions
-    if (definition.lifetime === 'singleton') {
-      this.instances.set(id, instance);
+      throw new Error(`Invalid service definition for ${describeService(id)}: no useClass, useFactory or useValue`);
     }
 
     return instance;
   }
 
   /**
-   * Clears all cached singleton instances
+   * Creates a new instance from a service definition, awaiting async factories
+   * 
+   * Mirrors createInstance, except that constructor dependencies are resolved
+   * with resolveAsync (one after another, so creation order stays predictable).
+   * 
+   * @param id Identifier of the service being created
+   * @param definition How the service should be created
+   * @returns A promise for the new service instance
+   */
+  private async createInstanceAsync<T>(id: ServiceIdentifier, definition: ServiceDefinition<T>): Promise<T> {
+    if (definition.useClass) {
+      const deps = definition.deps ?? definition.useClass.inject ?? [];
+      const args: unknown[] = [];
+      for (const dep of deps) {
+        args.push(await this.resolveAsync(dep));
+      }
+      return new definition.useClass(...args);
+    }
+    if (definition.useFactory) {
+      return await definition.useFactory(this);
+    }
+    if (definition.useValue !== undefined) {
+      return definition.useValue;
+    }
+    throw new Error(`Invalid service definition for ${describeService(id)}: no useClass, useFactory or useValue`);
+  }
+
+  /**
+   * Clears all cached singleton and scoped instances held by this container
    * 
    * This is particularly useful for testing, where you might want
-   * to reset the container between tests.
+   * to reset the container between tests. Note that the instances are just
+   * dropped, not disposed - use dispose() when they need to clean up.
    */
   clearInstances(): void {
     this.instances.clear();
+    this.created = [];
   }
 }
 
@@ -153,17 +929,30 @@ export class DIContainer {
  * Using symbols as service identifiers provides type safety and prevents
  * accidental collisions. This is better than string identifiers because:
  * 1. Symbols are guaranteed to be unique
- * 2. TypeScript can enforce correct usage
+ * 2. TypeScript can enforce correct usage - each token carries its service interface
  * 3. Refactoring tools work better with symbols than with string literals
  * 
  * This approach is similar to how Angular's DI system uses injection tokens.
  */
 export const SERVICE_IDENTIFIERS = {
-  LOGGER: Symbol('LOGGER'),
-  METRICS_SERVICE: Symbol('METRICS_SERVICE'),
-  VALIDATION_SERVICE: Symbol('VALIDATION_SERVICE'),
-  AUTH_SERVICE: Symbol('AUTH_SERVICE'),
-  EVENT_COLLECTOR: Symbol('EVENT_COLLECTOR'),
-  COMMAND_BUILDER: Symbol('COMMAND_BUILDER'),
-  TRANSACTION_MANAGER: Symbol('TRANSACTION_MANAGER')
+  CONFIG: createServiceToken<ConfigService>('CONFIG'),
+  LOGGER: createServiceToken<Logger>('LOGGER'),
+  METRICS_SERVICE: createServiceToken<MetricsService>('METRICS_SERVICE'),
+  VALIDATION_SERVICE: createServiceToken<ValidationService>('VALIDATION_SERVICE'),
+  AUTH_SERVICE: createServiceToken<AuthService>('AUTH_SERVICE'),
+  CIRCUIT_BREAKER: createServiceToken<CircuitBreakerService>('CIRCUIT_BREAKER'),
+  DEAD_LETTER_QUEUE: createServiceToken<DeadLetterQueue>('DEAD_LETTER_QUEUE'),
+  IDEMPOTENCY_STORE: createServiceToken<IdempotencyStore>('IDEMPOTENCY_STORE'),
+  EVENT_COLLECTOR: createServiceToken<EventCollector>('EVENT_COLLECTOR'),
+  COMMAND_BUILDER: createServiceToken<TransactionCommandBuilder>('COMMAND_BUILDER'),
+  TRANSACTION_MANAGER: createServiceToken<TransactionManager>('TRANSACTION_MANAGER'),
+  EVENT_DISPATCHER: createServiceToken<EventDispatcher>('EVENT_DISPATCHER'),
+  // Multi-binding tokens - register as many as you like, collect them with resolveAll()
+  // Hook tokens take either the bare hook or { hook, options } when it needs scoping
+  PRE_INVOKE_HOOK: createServiceToken<PreInvokeHook | HookBinding<PreInvokeHook>>('PRE_INVOKE_HOOK'),
+  POST_INVOKE_HOOK: createServiceToken<PostInvokeHook | HookBinding<PostInvokeHook>>('POST_INVOKE_HOOK'),
+  AROUND_INVOKE_HOOK: createServiceToken<AroundInvokeHook | HookBinding<AroundInvokeHook>>('AROUND_INVOKE_HOOK'),
+  ERROR_HOOK: createServiceToken<ErrorHook | HookBinding<ErrorHook>>('ERROR_HOOK'),
+  FINALLY_HOOK: createServiceToken<FinallyHook | HookBinding<FinallyHook>>('FINALLY_HOOK'),
+  COMMAND_REGISTRATION: createServiceToken<CommandRegistration>('COMMAND_REGISTRATION')
 };
\ No newline at end of file
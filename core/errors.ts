@@ -0,0 +1,163 @@
+/**
+ * Pipeline Errors
+ *
+ * Errors that mean something to the pipeline itself, as opposed to whatever a
+ * command happens to throw. They live in one place because the code that throws
+ * them (the builder, hooks, commands) and the code that acts on them (error
+ * hooks, the transaction manager, whoever reads the results) are never in the
+ * same file.
+ *
+ * If you're going to catch an error by type, it needs a type. I've lost count
+ * of the `error.message.includes('timed out')` checks I've ripped out of
+ * production code after somebody reworded a message.
+ */
+
+/**
+ * Thrown when a command doesn't finish within its timeout
+ *
+ * The builder aborts the context's signal with this error as the reason, and
+ * fails the invocation with it - so a command that checks `signal.reason` and
+ * a caller that checks the result see the same thing.
+ */
+export class CommandTimeoutError extends Error {
+  constructor(
+    public readonly commandId: string,
+    public readonly eventType: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Command ${commandId} for event type ${eventType} timed out after ${timeoutMs}ms`);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+/**
+ * Thrown when no command handles an event and there's no fallback handler
+ */
+export class UnhandledEventError extends Error {
+  readonly retryable = false;
+
+  constructor(public readonly eventType: string) {
+    super(`No command factory registered for event type: ${eventType}`);
+    this.name = 'UnhandledEventError';
+  }
+}
+
+/**
+ * Thrown when an event's payload doesn't pass validation
+ *
+ * Not retryable: the payload will be just as invalid on the second attempt.
+ */
+export class ValidationError extends Error {
+  readonly retryable = false;
+
+  constructor(public readonly eventType: string) {
+    super(`Invalid event payload for ${eventType}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when an event's source isn't allowed to send that event type
+ *
+ * Not retryable either - permissions don't change between attempts, and
+ * hammering the auth check with a source that's been refused is how you end
+ * up in somebody's security incident report.
+ */
+export class AuthorizationError extends Error {
+  readonly retryable = false;
+
+  constructor(public readonly source: string, public readonly eventType: string) {
+    super(`Unauthorized source: ${source}`);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * Thrown instead of calling a command whose circuit is open
+ *
+ * Not retryable - retrying into an open circuit is exactly the hammering the
+ * circuit is there to prevent. Once the cooldown is over, the next event gets
+ * to find out whether things have recovered.
+ */
+export class CircuitOpenError extends Error {
+  readonly retryable = false;
+
+  constructor(public readonly circuit: string, public readonly retryAfterMs: number) {
+    super(`Circuit ${circuit} is open - failing fast for another ${retryAfterMs}ms`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown by dispatch() when the dispatcher's queue is full and it's set to reject
+ *
+ * Deliberately retryable: a full queue is the most transient condition there
+ * is. The caller should back off and try again, or shed the load upstream -
+ * either way it's been told instead of silently piling up memory.
+ */
+export class QueueFullError extends Error {
+  constructor(public readonly maxQueueSize: number) {
+    super(`Event queue is full (${maxQueueSize} events waiting) - try again later`);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Thrown by dispatch() once the dispatcher has started draining
+ *
+ * Draining means we're shutting down. Events dispatched before that still get
+ * processed; events that arrive after it belong to whoever's taking over.
+ */
+export class DispatcherDrainingError extends Error {
+  constructor(public readonly eventType: string) {
+    super(`Not accepting ${eventType} events - the dispatcher is draining`);
+    this.name = 'DispatcherDrainingError';
+  }
+}
+
+/**
+ * Decides whether an error is worth another attempt
+ *
+ * Errors are assumed to be transient unless they say otherwise: any error
+ * with `retryable: false` (ValidationError and AuthorizationError do) is
+ * final. Failing to retry a network blip costs you an event; retrying a bad
+ * payload just costs you some CPU - so the default leans towards retrying,
+ * and the errors that know better opt out.
+ *
+ * @param error The error an attempt failed with
+ * @returns Whether the attempt may be retried
+ */
+export function isRetryableError(error: Error): boolean {
+  return (error as { retryable?: boolean }).retryable !== false;
+}
+
+/**
+ * Where in the pipeline each error was first thrown
+ *
+ * A WeakMap rather than a property on the error: errors thrown by other
+ * people's code aren't ours to modify, and entries disappear with the errors.
+ */
+const failureOrigins = new WeakMap<object, string>();
+
+/**
+ * Records where an error was thrown, unless it's already known
+ *
+ * The pipeline calls this on the way out of every hook and the command. The
+ * innermost one sees the error first, so that's the one that sticks - an
+ * around hook an error merely passes through doesn't get the blame.
+ *
+ * @param error What was thrown
+ * @param origin Where, e.g. "pre hook 'auth'" or "command RepCheckIn"
+ */
+export function recordFailureOrigin(error: unknown, origin: string): void {
+  if (typeof error === 'object' && error !== null && !failureOrigins.has(error)) {
+    failureOrigins.set(error, origin);
+  }
+}
+
+/**
+ * Where an error was thrown, if the pipeline saw it happen
+ */
+export function failureOriginOf(error: Error): string | undefined {
+  return failureOrigins.get(error);
+}
@@ -0,0 +1,271 @@
+import { DispatcherStats, EventDispatcher, ProcessingResult, TransactionEvent, TransactionManager } from './types';
+import { DispatcherDrainingError, QueueFullError } from './errors';
+
+/**
+ * Event Dispatcher Implementation
+ *
+ * The rep portal doesn't send us one event and wait politely. A rep finishes a
+ * route, the portal syncs, and we get a burst: check-ins, matches and
+ * confirmations for a dozen stores at once. Processing them one at a time is
+ * slow, and processing them all at once is wrong - a confirmation that
+ * overtakes the match it confirms is a bug report waiting to happen.
+ *
+ * The answer is the one every serious message broker settled on (Kafka calls
+ * them partitions, SQS calls them message groups): ordering only matters
+ * within a key, so keep it there and run everything else in parallel.
+ *
+ * HOW IT WORKS:
+ * 1. Every event gets a partition key - by default its storeId, or its
+ *    correlationId when it isn't about a store
+ * 2. Each key has its own FIFO queue, and at most one of its events is in
+ *    flight at any time
+ * 3. Up to `concurrency` events from different keys run side by side. Keys
+ *    take turns, so one busy store can't starve the others
+ * 4. The queue is bounded. When it's full, dispatch() either fails with a
+ *    QueueFullError or waits for room - backpressure, instead of a burst
+ *    quietly eating all the memory in the box
+ * 5. drain() stops taking new events and waits for the accepted ones, so a
+ *    shutdown doesn't drop work on the floor
+ */
+
+/**
+ * Options for PartitionedEventDispatcher
+ */
+export interface EventDispatcherOptions {
+  /** Events processed at the same time (default 4) */
+  concurrency?: number;
+  /** Events that may wait for their turn before the queue is full (default 1000) */
+  maxQueueSize?: number;
+  /** Fail dispatch() with a QueueFullError when the queue is full, or wait for room (the default) */
+  whenFull?: 'reject' | 'wait';
+  /** Picks an event's partition (default: partitionByPaths(['payload.storeId', 'metadata.correlationId'])) */
+  partitionKey?: (event: TransactionEvent) => string;
+}
+
+/**
+ * An event that's been dispatched but hasn't been processed yet
+ */
+interface PendingEvent {
+  event: TransactionEvent;
+  key: string;
+  resolve: (result: ProcessingResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Builds a partition key function from event property paths
+ *
+ * The first path that leads to a value wins. An event none of them match is
+ * its own partition (keyed by its ID): nothing says it has to wait for
+ * anything, so it doesn't.
+ *
+ * @param paths Dotted property paths, e.g. "payload.storeId"
+ * @returns A function that returns an event's partition key
+ */
+export function partitionByPaths(paths: string[]): (event: TransactionEvent) => string {
+  return event => {
+    for (const path of paths) {
+      const value = path.split('.').reduce<any>((target, property) => target?.[property], event);
+      if (value !== undefined && value !== null && value !== '') {
+        return `${path}=${String(value)}`;
+      }
+    }
+    return `id=${event.id}`;
+  };
+}
+
+/**
+ * PartitionedEventDispatcher - Processes events concurrently, in order within a partition
+ *
+ * A singleton in front of the transaction manager. It's disposable: disposing
+ * the container drains it, and because it's built after the manager it's
+ * disposed before it - the manager is still there for the last events.
+ */
+export class PartitionedEventDispatcher implements EventDispatcher {
+  private concurrency: number;
+  private maxQueueSize: number;
+  private whenFull: 'reject' | 'wait';
+  private partitionKey: (event: TransactionEvent) => string;
+
+  /** Accepted events by partition key, oldest first (keys with nothing queued are removed) */
+  private partitions: Map<string, PendingEvent[]> = new Map();
+  /** Keys with an event in flight */
+  private active: Set<string> = new Set();
+  /** Keys with queued events and nothing in flight, in the order they got their turn */
+  private ready: string[] = [];
+  /** Events accepted into the partitions and not started yet */
+  private queued = 0;
+  /** Events whose callers are waiting for room, oldest first */
+  private overflow: PendingEvent[] = [];
+  /** Callers of drain() waiting for the dispatcher to go idle */
+  private idleWaiters: Array<() => void> = [];
+  private draining?: Promise<void>;
+
+  /**
+   * Creates a dispatcher
+   *
+   * @param manager Processes the events
+   * @param options Concurrency, queue bound and partitioning
+   * @throws If concurrency or maxQueueSize isn't a positive integer
+   */
+  constructor(private manager: TransactionManager, options: EventDispatcherOptions = {}) {
+    this.concurrency = options.concurrency ?? 4;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+    this.whenFull = options.whenFull ?? 'wait';
+    this.partitionKey = options.partitionKey ?? partitionByPaths(['payload.storeId', 'metadata.correlationId']);
+
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error(`Dispatcher concurrency must be a positive integer, got ${this.concurrency}`);
+    }
+    if (!Number.isInteger(this.maxQueueSize) || this.maxQueueSize < 1) {
+      throw new Error(`Dispatcher maxQueueSize must be a positive integer, got ${this.maxQueueSize}`);
+    }
+  }
+
+  /**
+   * Queues an event for processing
+   *
+   * The returned promise settles when the event has been processed, not when
+   * it's been queued - with the same ProcessingResult processEvent would have
+   * returned. While other callers are waiting for room, a new event waits
+   * behind them even if a slot has just opened up; jumping the line would
+   * break the ordering of its partition.
+   *
+   * @param event The event to process
+   * @returns How processing went
+   * @throws QueueFullError if the queue is full and whenFull is 'reject'
+   * @throws DispatcherDrainingError once drain() has been called
+   */
+  dispatch(event: TransactionEvent): Promise<ProcessingResult> {
+    if (this.draining) {
+      return Promise.reject(new DispatcherDrainingError(event.type));
+    }
+
+    const full = this.queued >= this.maxQueueSize || this.overflow.length > 0;
+    if (full && this.whenFull === 'reject') {
+      return Promise.reject(new QueueFullError(this.maxQueueSize));
+    }
+
+    return new Promise<ProcessingResult>((resolve, reject) => {
+      const pending: PendingEvent = { event, key: this.partitionKey(event), resolve, reject };
+      if (full) {
+        this.overflow.push(pending);
+      } else {
+        this.enqueue(pending);
+        this.pump();
+      }
+    });
+  }
+
+  /**
+   * Stops accepting events and waits for the accepted ones to finish
+   *
+   * "Accepted" includes callers still waiting for room - they were promised a
+   * result, and they get one. Calling it again returns the same promise.
+   */
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = new Promise<void>(resolve => {
+        this.idleWaiters.push(resolve);
+        this.notifyIfIdle();
+      });
+    }
+    return this.draining;
+  }
+
+  getStats(): DispatcherStats {
+    return {
+      queued: this.queued,
+      waiting: this.overflow.length,
+      inFlight: this.active.size,
+      partitions: new Set([...this.partitions.keys(), ...this.active]).size,
+      draining: this.draining !== undefined
+    };
+  }
+
+  /**
+   * Called by the DI container on shutdown
+   */
+  dispose(): Promise<void> {
+    return this.drain();
+  }
+
+  /**
+   * Adds an event to its partition's queue
+   */
+  private enqueue(pending: PendingEvent): void {
+    this.queued++;
+    const queue = this.partitions.get(pending.key);
+    if (queue) {
+      queue.push(pending);
+      return;
+    }
+
+    this.partitions.set(pending.key, [pending]);
+    // A key with an event in flight gets back in line when that event is done
+    this.markReady(pending.key);
+  }
+
+  /**
+   * Starts events until the concurrency limit is reached or nothing is ready
+   */
+  private pump(): void {
+    while (this.active.size < this.concurrency && this.ready.length > 0) {
+      const key = this.ready.shift()!;
+      const queue = this.partitions.get(key)!;
+      const pending = queue.shift()!;
+      if (queue.length === 0) {
+        this.partitions.delete(key);
+      }
+      this.queued--;
+      // In flight from here on - the caller handed its place below may share the key,
+      // and has to wait behind this event rather than start next to it
+      this.active.add(key);
+
+      // Its place in the queue is free - hand it to the longest-waiting caller
+      if (this.overflow.length > 0) {
+        this.enqueue(this.overflow.shift()!);
+      }
+
+      this.run(pending);
+    }
+  }
+
+  /**
+   * Processes one event and gives its partition the next turn
+   */
+  private async run(pending: PendingEvent): Promise<void> {
+    try {
+      pending.resolve(await this.manager.processEvent(pending.event));
+    } catch (error) {
+      // processEvent reports failures in its result - this is a bug in the manager
+      pending.reject(error);
+    } finally {
+      this.active.delete(pending.key);
+      // Back of the line, behind the keys that were waiting while it ran
+      if (this.partitions.has(pending.key)) {
+        this.markReady(pending.key);
+      }
+      this.pump();
+      this.notifyIfIdle();
+    }
+  }
+
+  /**
+   * Puts a key in line for a turn, unless it's already in line or in flight
+   *
+   * A key in either place twice would get two turns for one queue - two of
+   * its events running side by side, or a turn with nothing left to run.
+   */
+  private markReady(key: string): void {
+    if (!this.active.has(key) && !this.ready.includes(key)) {
+      this.ready.push(key);
+    }
+  }
+
+  private notifyIfIdle(): void {
+    if (this.queued === 0 && this.overflow.length === 0 && this.active.size === 0) {
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { BackoffOptions, CommandContext, EventCollector, RetryOptions, TransactionEvent } from './types';
+import { isRetryableError } from './errors';
+import { delay } from './cancellation';
+
+/**
+ * Retry Policy
+ *
+ * The command builder's withRetry() runs commands through here. It's kept out
+ * of command-builder.ts because there's a surprising amount of detail in
+ * getting retries right, and none of it has anything to do with building
+ * commands:
+ *
+ * 1. Classification: some errors are worth retrying, some never are
+ * 2. Backoff: wait longer after every failure, with jitter so a fleet of
+ *    retrying workers doesn't stampede a recovering service
+ * 3. Isolation: a failed attempt's side effects must not survive it
+ *
+ * I've debugged the third one in production. A command emitted its event,
+ * failed a moment later, got retried, emitted the event again - and a rep got
+ * paid twice for the same store. Every attempt here gets its own collector,
+ * and only the successful attempt's side effects reach the real one.
+ */
+
+/** Used when a retry policy doesn't say how to back off */
+const DEFAULT_BACKOFF: BackoffOptions = { initialDelayMs: 100, multiplier: 2 };
+
+/**
+ * Checks a retry policy before anything runs with it
+ *
+ * @throws If the policy can't be followed
+ */
+export function validateRetryOptions(options: RetryOptions): void {
+  if (!Number.isInteger(options.maxAttempts) || options.maxAttempts < 1) {
+    throw new Error(`Retry maxAttempts must be a positive integer, got ${options.maxAttempts}`);
+  }
+  if (options.jitter !== undefined && !(options.jitter >= 0 && options.jitter <= 1)) {
+    throw new Error(`Retry jitter must be between 0 and 1, got ${options.jitter}`);
+  }
+  if (options.backoff && !(options.backoff.initialDelayMs >= 0)) {
+    throw new Error(`Retry backoff initialDelayMs must be a non-negative number, got ${options.backoff.initialDelayMs}`);
+  }
+}
+
+/**
+ * Runs an invocation until it succeeds, fails for good, or runs out of attempts
+ *
+ * Before each attempt the attempt number (starting at 1) goes into
+ * `context.state.attempt`, so hooks and commands can tell a first try from a
+ * retry. The waits between attempts listen to the context's signal - a caller
+ * that gives up doesn't have to sit through the backoff.
+ * 
+ * Nothing is logged from here: the policy's onRetry callback hears about each
+ * retry, and whoever builds the policy decides where that goes.
+ *
+ * @param options The retry policy
+ * @param context The context of the whole invocation
+ * @param run Runs one attempt with the context it's given
+ * @throws The last attempt's error
+ */
+export async function runWithRetry(
+  options: RetryOptions,
+  context: CommandContext,
+  run: (context: CommandContext) => Promise<void>
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    context.state.attempt = attempt;
+    const collector = new AttemptEventCollector(context.eventCollector);
+
+    try {
+      await run({ ...context, eventCollector: collector });
+    } catch (error) {
+      collector.discard();
+      const failure = error instanceof Error ? error : new Error(String(error));
+      if (attempt >= options.maxAttempts || context.signal.aborted || !shouldRetry(options, failure)) {
+        throw failure;
+      }
+
+      const waitMs = backoffDelay(options, attempt);
+      options.onRetry?.({
+        event: context.event,
+        attempt,
+        maxAttempts: options.maxAttempts,
+        error: failure,
+        delayMs: waitMs
+      });
+      await delay(waitMs, context.signal);
+      continue;
+    }
+
+    collector.commit();
+    return;
+  }
+}
+
+/**
+ * Whether a failed attempt gets another go
+ *
+ * retryOn can only narrow things down - an error that says it isn't
+ * retryable stays that way whatever the policy thinks.
+ */
+function shouldRetry(options: RetryOptions, error: Error): boolean {
+  return isRetryableError(error) && (options.retryOn ? options.retryOn(error) : true);
+}
+
+/**
+ * How long to wait after a failed attempt
+ *
+ * @param options The retry policy
+ * @param attempt The attempt that just failed (1 for the first)
+ * @returns The wait in milliseconds
+ */
+function backoffDelay(options: RetryOptions, attempt: number): number {
+  const backoff = options.backoff ?? DEFAULT_BACKOFF;
+  const exponential = backoff.initialDelayMs * Math.pow(backoff.multiplier ?? 2, attempt - 1);
+  const capped = Math.min(exponential, backoff.maxDelayMs ?? Infinity);
+  // Jitter only ever shortens the wait, so maxDelayMs stays a real upper bound
+  const jittered = capped * (1 - (options.jitter ?? 0) * Math.random());
+  return Math.round(jittered);
+}
+
+/**
+ * AttemptEventCollector - Holds one attempt's side effects until it succeeds
+ *
+ * Hooks and commands see the side effects collected so far (the real
+ * collector's plus this attempt's), but nothing reaches the real collector
+ * until commit(). A failed attempt's side effects are dropped - including any
+ * a timed-out command emits after it was given up on.
+ */
+class AttemptEventCollector implements EventCollector {
+  private buffered: TransactionEvent[] = [];
+  private settled = false;
+
+  constructor(private target: EventCollector) {}
+
+  addEvent(event: TransactionEvent): void {
+    if (!this.settled) {
+      this.buffered.push(event);
+    }
+  }
+
+  getEvents(): TransactionEvent[] {
+    return [...this.target.getEvents(), ...this.buffered];
+  }
+
+  clear(): void {
+    this.buffered = [];
+  }
+
+  /** Hands the attempt's side effects to the real collector */
+  commit(): void {
+    this.settled = true;
+    this.buffered.forEach(event => this.target.addEvent(event));
+    this.buffered = [];
+  }
+
+  /** Drops the attempt's side effects, and any that arrive later */
+  discard(): void {
+    this.settled = true;
+    this.buffered = [];
+  }
+}
@@ -1,10 +1,22 @@
 import { 
   TransactionManager, 
   TransactionCommandBuilder, 
+  TransactionCommand,
   TransactionEvent,
-  EventCollector,
-  CommandContext
+  CommandContext,
+  HandlerResult,
+  ProcessingResult,
+  ProcessingOutcome,
+  ChainOptions,
+  ChainResult,
+  CausationNode,
+  DeadLetterQueue,
+  IdempotencyStore,
+  ProcessEventOptions,
+  EventCollector
 } from './types';
+import { DIContainer, SERVICE_IDENTIFIERS } from './di-container';
+import { AuthorizationError, UnhandledEventError, ValidationError, failureOriginOf } from './errors';
 
 /**
  * Transaction Manager Implementation
@@ -35,21 +47,52 @@ import {
  * a hell of a lot easier when things go wrong at 3AM.
  */
 
+/**
+ * Options for DefaultTransactionManager
+ */
+export interface TransactionManagerOptions {
+  /**
+   * How to run the handlers of an event with several of them: one after another
+   * in registration order (the default), or all at once
+   */
+  fanOut?: 'sequential' | 'parallel';
+  /** Defaults for processEventChain (breadth-first, depth 10, 100 events) */
+  chain?: ChainOptions;
+  /** Where events that don't succeed are parked (without one they're only logged) */
+  deadLetters?: DeadLetterQueue;
+  /** Remembers the handlers that succeeded, so a redelivery doesn't run them twice (without one, every delivery does) */
+  idempotency?: IdempotencyStore;
+}
+
+/** Used for whatever the options and the call leave out */
+const DEFAULT_CHAIN_OPTIONS: Required<ChainOptions> = {
+  order: 'breadth-first',
+  maxDepth: 10,
+  maxEvents: 100
+};
+
 /**
  * DefaultTransactionManager - Orchestrates event processing
  * 
  * This class is the conductor of our event processing symphony. It's responsible for:
  * 1. Receiving events from various sources
- * 2. Building the appropriate command with all capabilities
- * 3. Creating the execution context
- * 4. Invoking the command
- * 5. Handling any errors that occur
+ * 2. Building the appropriate commands with all capabilities
+ * 3. Opening a DI scope for each event, shared by its handlers
+ * 4. Creating the execution context
+ * 5. Invoking the commands
+ * 6. Handling any errors that occur
+ * 7. Parking events that don't succeed in the dead letter queue
+ * 8. Recognizing handlers that already succeeded for an event
+ * 9. Reporting a result per handler
  * 
  * It acts as a mediator between event producers and command handlers, keeping
  * everything nice and decoupled. I've been refining this pattern for years,
  * and it's one of my favorite ways to structure complex business logic.
  */
 export class DefaultTransactionManager implements TransactionManager {
+  /** Events being processed right now (by event ID, plus the handlers when only some run), so a duplicate that arrives meanwhile can wait for them */
+  private inProgress: Map<string, Promise<ProcessingResult>> = new Map();
+
   /**
    * Creates a new transaction manager
    * 
@@ -58,52 +101,338 @@ export class DefaultTransactionManager implements TransactionManager {
    * before DI was cool. This makes dependencies explicit and enables easier testing.
    * No more hunting through code to figure out what a class depends on.
    * 
+   * The container is used to open a scope per event, which is where
+   * per-event services like the EventCollector come from.
+   * 
    * @param commandBuilder Builder that creates commands with capabilities
-   * @param eventCollector Collector for side-effect events
+   * @param container Container that per-event scopes are created from
+   * @param options How handlers of a fanned-out event are run
    */
   constructor(
     private commandBuilder: TransactionCommandBuilder,
-    private eventCollector: EventCollector
+    private container: DIContainer,
+    private options: TransactionManagerOptions = {}
   ) {}
   
   /**
-   * Processes an event by building and executing the appropriate command
+   * Processes an event by building and executing the appropriate commands
    * 
    * This is the main entry point for event processing - the heart of the system.
    * I've designed it to be simple on the surface but powerful underneath:
    * 
-   * 1. Builds the appropriate command with all capabilities
-   * 2. Creates a context for the command execution
-   * 3. Invokes the command
-   * 4. Handles any errors that occur
+   * 1. Builds one command per handler of the event, each with all capabilities
+   * 2. Runs the handlers - one after another, or all at once with fanOut: 'parallel'
+   * 3. Opens one DI scope for the event, and gives every handler in it its own context
+   * 4. Handles any errors that occur, handler by handler
+   * 5. Reports what happened - to the event as a whole, and to each handler
+   * 
+   * A failing handler doesn't stop the others: they're independent pieces of
+   * work that happen to be triggered by the same event.
+   * 
+   * Errors still go through handleError, but they don't disappear there any
+   * more. The result says whether the event succeeded, and if it didn't, why -
+   * a rejected payload, an unauthorized source, nobody handling it, or a plain
+   * failure - with the typed error attached. An event that only the fallback
+   * handler picked up is reported as unhandled, even though the fallback
+   * itself worked.
+   * 
+   * With an idempotency store, each handler only succeeds once per event: on a
+   * redelivery, the handlers that already succeeded get their stored result
+   * back (marked `replayed`) and don't run, and the rest run again. Only
+   * successes are remembered - a failed handler that comes back is exactly
+   * what retries and dead letter redrives rely on. When every handler is
+   * replayed, so is the event as a whole.
    * 
    * This centralized approach ensures consistent handling of all events.
    * I've seen too many systems where event handling is scattered across
    * the codebase, leading to inconsistent error handling and duplicate code.
    * This approach fixes that mess.
    * 
+   * A dead letter redrive passes the handlers to run, so a fanned-out event
+   * whose first handler worked and second didn't only runs the second again.
+   * 
    * @param event The event to process
+   * @param options Which of the event's handlers to run (all of them by default)
+   * @returns How processing went (it doesn't throw when a command fails)
    */
-  async processEvent(event: TransactionEvent): Promise<void> {
+  async processEvent(event: TransactionEvent, options: ProcessEventOptions = {}): Promise<ProcessingResult> {
+    if (!this.options.idempotency) {
+      return this.processOnce(event, options);
+    }
+    
+    // A duplicate delivered while the original is still running would miss
+    // the store - it only knows about handlers that have finished. Only a run
+    // of the same handlers counts as the original: a redrive of some of them
+    // isn't answered with the result of all of them
+    const key = options.handlers ? `${event.id}#${options.handlers.join(',')}` : event.id;
+    const running = this.inProgress.get(key);
+    if (running) {
+      const result = await running;
+      // A failure that's shared isn't a replay - nothing succeeded to replay
+      return result.status === 'succeeded' ? { ...result, replayed: true } : result;
+    }
+    
+    const processing = this.processOnce(event, options);
+    this.inProgress.set(key, processing);
     try {
-      // Build command with all registered capabilities
+      return await processing;
+    } finally {
+      this.inProgress.delete(key);
+    }
+  }
+  
+  /**
+   * Builds and runs the event's commands - the actual processing behind processEvent
+   */
+  private async processOnce(event: TransactionEvent, options: ProcessEventOptions): Promise<ProcessingResult> {
+    const startedAt = Date.now();
+    
+    let selected: Array<{ command: TransactionCommand; handler: number }>;
+    try {
+      // Build commands with all registered capabilities
       // This leverages the Builder Pattern from command-builder.ts
-      const command = this.commandBuilder.buildCommand(event);
+      const commands = this.commandBuilder.buildCommands(event);
+      selected = selectHandlers(event, commands, options.handlers);
+    } catch (error) {
+      const failure = error as Error;
+      await this.handleError(event, failure);
+      return this.deadLetterUnlessSucceeded(event, {
+        eventId: event.id,
+        eventType: event.type,
+        ...outcomeFor(failure),
+        durationMs: Date.now() - startedAt,
+        sideEffects: [],
+        handlers: []
+      });
+    }
+    
+    // Without a route of its own, the event went to the fallback handler
+    const routed = this.commandBuilder.hasHandler(event);
+    
+    // One scope per event - side effects from the previous event can't leak into
+    // this one, while its handlers share scoped services and real singletons
+    // (logger, metrics, ...) are still shared with the parent
+    const scope = this.container.createScope();
+    let handlers: HandlerResult[];
+    try {
+      if (this.options.fanOut === 'parallel') {
+        handlers = await Promise.all(
+          selected.map(({ command, handler }) => this.runHandlerOnce(event, command, handler, routed, scope))
+        );
+      } else {
+        handlers = [];
+        for (const { command, handler } of selected) {
+          handlers.push(await this.runHandlerOnce(event, command, handler, routed, scope));
+        }
+      }
+    } finally {
+      // The event is done - let the scope's services clean up after themselves
+      await scope.dispose().catch(error => this.handleError(event, error));
+    }
+    
+    // The event ends the way its first unsuccessful handler did, error and all
+    const unsuccessful = handlers.find(handler => handler.status !== 'succeeded');
+    // With a single handler there's no question whose command and state they are
+    const [only] = handlers.length === 1 ? handlers : [];
+    return this.deadLetterUnlessSucceeded(event, {
+      eventId: event.id,
+      eventType: event.type,
+      ...(unsuccessful ? outcomeOf(unsuccessful) : { status: 'succeeded' }),
+      commandId: only?.commandId,
+      state: only?.state,
+      durationMs: Date.now() - startedAt,
+      sideEffects: handlers.flatMap(handler => handler.sideEffects),
+      handlers,
+      replayed: handlers.length > 0 && handlers.every(handler => handler.replayed) ? true : undefined
+    });
+  }
+  
+  /**
+   * Parks an event that didn't succeed in the dead letter queue, if there is one
+   * 
+   * Unhandled events go there too - "nobody handles this" is as much a thing
+   * somebody needs to look at as "the handler blew up". A dead letter queue
+   * that's itself broken mustn't turn a reported failure into a thrown one,
+   * so its errors only go to handleError.
+   * 
+   * @returns The result, unchanged
+   */
+  private async deadLetterUnlessSucceeded(event: TransactionEvent, result: ProcessingResult): Promise<ProcessingResult> {
+    if (result.status !== 'succeeded' && this.options.deadLetters) {
+      await this.options.deadLetters.add(event, result).catch(error => this.handleError(event, error));
+    }
+    return result;
+  }
+  
+  /**
+   * Processes an event, then the events it caused, and so on until it's quiet
+   * 
+   * MATCH_STORE_TO_PRODUCT emits STORE_MATCHED, STORE_MATCHED emits
+   * REP_CHECKED_IN and COMMISSION_RECORDED. Hand-feeding side effects back
+   * into processEvent works for a demo, and nowhere else. This follows the
+   * chain for you: every side effect with a route of its own is dispatched,
+   * and the ones nothing routes (the fallback doesn't count - it would only
+   * record them) end up in the tree as leaves.
+   * 
+   * Breadth-first finishes each generation before starting the next, so
+   * siblings run close together in time. Depth-first follows one line of
+   * consequences to the end before the next, which reads more naturally in
+   * the logs. Either way the tree looks the same - only the order differs.
+   * 
+   * A failing event stops its own branch (it has no side effects to follow),
+   * not the whole chain.
+   * 
+   * @param event The event that starts the chain
+   * @param options Order and guards (defaults come from the manager's options)
+   * @returns The causation tree, rooted at the original event
+   */
+  async processEventChain(event: TransactionEvent, options: ChainOptions = {}): Promise<ChainResult> {
+    const { order, maxDepth, maxEvents } = { ...DEFAULT_CHAIN_OPTIONS, ...this.options.chain, ...options };
+    
+    const root: CausationNode = { event, depth: 0, children: [] };
+    // Breadth-first takes from the front, depth-first from the back
+    const pending: CausationNode[] = [root];
+    let processedEvents = 0;
+    let truncated = false;
+    
+    while (pending.length > 0) {
+      const node = order === 'depth-first' ? pending.pop()! : pending.shift()!;
+      
+      if (node.depth > 0 && !this.commandBuilder.hasHandler(node.event)) {
+        node.skipped = 'no-handler';
+        continue;
+      }
+      if (node.depth > maxDepth) {
+        node.skipped = 'max-depth';
+        truncated = true;
+        continue;
+      }
+      if (processedEvents >= maxEvents) {
+        node.skipped = 'max-events';
+        truncated = true;
+        continue;
+      }
       
+      processedEvents++;
+      node.result = await this.processEvent(node.event);
+      node.children = node.result.sideEffects.map(sideEffect => ({
+        event: sideEffect,
+        depth: node.depth + 1,
+        children: []
+      }));
+      
+      if (order === 'depth-first') {
+        // Reversed, so the first side effect is the next one popped
+        pending.push(...[...node.children].reverse());
+      } else {
+        pending.push(...node.children);
+      }
+    }
+    
+    return { root, processedEvents, truncated };
+  }
+  
+  /**
+   * Answers from the idempotency store, or runs the handler and records it
+   * 
+   * Without a store every handler just runs. A store that can't be read or
+   * written is reported to handleError, and processing carries on. That risks
+   * a duplicate; the alternative is every event failing until the store is
+   * back, which is the bigger outage.
+   */
+  private async runHandlerOnce(
+    event: TransactionEvent,
+    command: TransactionCommand,
+    handler: number,
+    routed: boolean,
+    scope: DIContainer
+  ): Promise<HandlerResult> {
+    const store = this.options.idempotency;
+    if (!store) {
+      return this.runHandler(event, command, handler, routed, scope);
+    }
+    
+    const stored = await store.get(event.id, handler).catch(async error => {
+      await this.handleError(event, error);
+      return undefined;
+    });
+    if (stored) {
+      return { ...stored, replayed: true };
+    }
+    
+    const result = await this.runHandler(event, command, handler, routed, scope);
+    if (result.status === 'succeeded') {
+      await store.set(event.id, handler, result).catch(error => this.handleError(event, error));
+    }
+    return result;
+  }
+  
+  /**
+   * Runs one handler's command for an event
+   * 
+   * @param event The event being processed
+   * @param command The hook-wrapped command for one handler
+   * @param handler The handler's position among the event's handlers
+   * @param routed Whether a route (rather than the fallback) picked the command
+   * @param scope The event's DI scope, shared with its other handlers
+   * @returns What happened to the handler
+   */
+  private async runHandler(
+    event: TransactionEvent,
+    command: TransactionCommand,
+    handler: number,
+    routed: boolean,
+    scope: DIContainer
+  ): Promise<HandlerResult> {
+    const startedAt = new Date();
+    // The handler's own cancellation signal - the builder's timeout chains onto it
+    const controller = new AbortController();
+    // Empty state object for hooks to share data - it's part of the result, so it lives out here
+    const state: Record<string, any> = {};
+    
+    try {
       // Prepare context for command execution
       // The context contains everything the command needs to execute
       const context: CommandContext = {
         event,
-        state: {}, // Empty state object for hooks to share data
-        eventCollector: this.eventCollector
+        state,
+        // The event's collector, seen through the handler's own side effects
+        eventCollector: new HandlerEventCollector(scope.resolve(SERVICE_IDENTIFIERS.EVENT_COLLECTOR)),
+        startedAt,
+        signal: controller.signal
       };
       
       // Execute command with all its hooks
       // This is where the business logic happens
       await command.invoke(context);
+      
+      return {
+        handler,
+        commandId: command.commandId,
+        status: routed ? 'succeeded' : 'unhandled',
+        durationMs: Date.now() - startedAt.getTime(),
+        sideEffects: [...context.eventCollector.getEvents()],
+        state,
+        attempts: state.attempt ?? 1
+      };
     } catch (error) {
       // Centralized error handling for all commands
       await this.handleError(event, error as Error);
+      
+      // A failed handler's side effects describe work that didn't happen - drop them
+      return {
+        handler,
+        commandId: command.commandId,
+        ...outcomeFor(error as Error),
+        durationMs: Date.now() - startedAt.getTime(),
+        sideEffects: [],
+        state,
+        attempts: state.attempt ?? 1,
+        failedIn: failureOriginOf(error as Error)
+      };
+    } finally {
+      // Anything the command left running in the background is told to stop
+      controller.abort();
     }
   }
   
@@ -135,4 +464,104 @@ export class DefaultTransactionManager implements TransactionManager {
     // - Send an alert to operations
     // - Create a compensating transaction
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pairs the commands built for an event with their handler positions, keeping the requested ones
+ * 
+ * Positions follow registration order, so they only mean the same thing
+ * while the wiring does. A position that doesn't exist any more fails loudly
+ * rather than quietly running nothing - a redrive that "succeeds" without
+ * doing any work would throw the dead letter away.
+ * 
+ * @param event The event the commands were built for
+ * @param commands One command per handler, in handler order
+ * @param handlers The positions to keep (all of them when undefined)
+ * @throws If a requested position has no handler
+ */
+function selectHandlers(
+  event: TransactionEvent,
+  commands: TransactionCommand[],
+  handlers?: number[]
+): Array<{ command: TransactionCommand; handler: number }> {
+  const all = commands.map((command, handler) => ({ command, handler }));
+  if (!handlers) {
+    return all;
+  }
+  const missing = handlers.filter(handler => !all[handler]);
+  if (missing.length > 0) {
+    throw new Error(
+      `${event.type} event ${event.id} has ${commands.length} handler(s) - there's no handler ${missing.join(', ')} to run`
+    );
+  }
+  return all.filter(({ handler }) => handlers.includes(handler));
+}
+
+/**
+ * Maps a failure to the status it's reported with
+ * 
+ * This is why the pipeline's errors are typed: the status comes from the
+ * error's class, not from parsing its message. The error comes back with the
+ * status, so the pair stays matched all the way into the result.
+ */
+function outcomeFor(error: Error): ProcessingOutcome {
+  if (error instanceof ValidationError) {
+    return { status: 'rejected-by-validation', error };
+  }
+  if (error instanceof AuthorizationError) {
+    return { status: 'unauthorized', error };
+  }
+  if (error instanceof UnhandledEventError) {
+    return { status: 'unhandled', error };
+  }
+  return { status: 'failed', error };
+}
+
+/**
+ * Copies just the status and its error out of a handler's result
+ * 
+ * Spelled out per status so the compiler can check each pairing - copying
+ * the two fields separately would lose track of which error goes with which
+ * status.
+ */
+function outcomeOf(result: ProcessingOutcome): ProcessingOutcome {
+  switch (result.status) {
+    case 'succeeded':
+      return { status: result.status };
+    case 'failed':
+      return { status: result.status, error: result.error };
+    case 'rejected-by-validation':
+      return { status: result.status, error: result.error };
+    case 'unauthorized':
+      return { status: result.status, error: result.error };
+    case 'unhandled':
+      return { status: result.status, error: result.error };
+  }
+}
+
+/**
+ * HandlerEventCollector - One handler's view of its event's EventCollector
+ * 
+ * The handlers of an event share its scope, so they share its collector too.
+ * Everything collected goes on to that collector, but getEvents() and clear()
+ * only see this handler's own side effects - so its result holds just what
+ * it emitted, and a sibling's can't be dropped along with a failure.
+ */
+class HandlerEventCollector implements EventCollector {
+  private events: TransactionEvent[] = [];
+  
+  constructor(private eventCollector: EventCollector) {}
+  
+  addEvent(event: TransactionEvent): void {
+    this.events.push(event);
+    this.eventCollector.addEvent(event);
+  }
+  
+  getEvents(): TransactionEvent[] {
+    return [...this.events];
+  }
+  
+  clear(): void {
+    this.events = [];
+  }
+}
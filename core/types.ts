@@ -16,6 +16,8 @@
  * always ends in tears. Get your interfaces right, and the rest will follow.
  */
 
+import type { AuthorizationError, UnhandledEventError, ValidationError } from './errors';
+
 /**
  * Event Metadata - Contains contextual information about an event
  * 
@@ -75,10 +77,16 @@ export interface TransactionEvent<T = any> {
 export interface CommandContext {
   /** The event that triggered this command */
   event: TransactionEvent;
-  /** Temporary state that can be shared between hooks and commands */
+  /** Temporary state that can be shared between hooks and commands (`attempt` holds the attempt number when retries are on) */
   state: any;
   /** Collector for any side-effect events generated during execution */
   eventCollector: EventCollector;
+  /** When processing of the event started (lets hooks measure durations) */
+  startedAt: Date;
+  /** Aborted when the command should stop (its timeout fired, or the caller gave up) */
+  signal: AbortSignal;
+  /** When the command's time runs out, if it has a timeout */
+  deadline?: Date;
 }
 
 /**
@@ -141,6 +149,240 @@ export interface EventCollector {
 export type PreInvokeHook = (command: TransactionCommand, context: CommandContext) => Promise<void>;
 export type PostInvokeHook = (command: TransactionCommand, context: CommandContext) => Promise<void>;
 
+/**
+ * AroundInvokeHook - Middleware that wraps the rest of the pipeline
+ * 
+ * Pre and post hooks can't see each other, so they can't time an invocation,
+ * put it in a try/finally, or decide not to run it at all. An around hook gets
+ * a `next` function that runs everything inside it (inner hooks and the command),
+ * so it can do work before and after, skip `next` to short-circuit, or call it
+ * again to retry. Same shape as Express/Koa middleware - if you've written one
+ * of those, you've written one of these.
+ */
+export type AroundInvokeHook = (
+  command: TransactionCommand,
+  context: CommandContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * ErrorHook - Runs when anything in the invocation throws
+ * 
+ * An error hook can observe the error (return nothing - the error keeps going),
+ * replace it (throw a different one - later error hooks see the new one), or
+ * recover from it (return `{ recovered: true }` - the invocation counts as a
+ * success and the remaining error hooks are skipped). Recovering is a business
+ * decision, so use it sparingly: "we expected this and it's fine", not "make
+ * the red go away".
+ */
+export type ErrorHook = (
+  command: TransactionCommand,
+  context: CommandContext,
+  error: Error
+) => Promise<void | { recovered: true }>;
+
+/**
+ * FinallyHook - Runs after every invocation, successful or not
+ * 
+ * The error is passed along when the invocation failed (after the error hooks
+ * had their say), so the same hook can record both outcomes. This is where
+ * metrics, audit records and resource cleanup belong - anywhere a post hook
+ * would silently miss the failures.
+ */
+export type FinallyHook = (
+  command: TransactionCommand,
+  context: CommandContext,
+  error?: Error
+) => Promise<void>;
+
+/**
+ * HookStage - Where in the pipeline a hook runs
+ */
+export type HookStage = 'pre' | 'post' | 'around' | 'error' | 'finally';
+
+/**
+ * HookOptions - Names, orders and scopes a hook
+ * 
+ * Hooks with the same priority run in the order they were added, so you only
+ * need priorities for the ones that really have to go first (or last).
+ * 
+ * Hooks apply to every event by default. The filters are checked when the
+ * command is built, so a hook that doesn't apply is simply not in the pipeline -
+ * no "if (event.type === ...)" at the top of every hook. When several filters
+ * are given, all of them have to match.
+ */
+export interface HookOptions {
+  /** A unique name for the hook, so it can be reported, removed or replaced later */
+  name?: string;
+  /** Order within the hook's stage - lower runs first (outermost for around hooks), default 0 */
+  priority?: number;
+  /** Only apply to these event types */
+  eventTypes?: string[];
+  /** Only apply to events from matching sources (strings may use * as a wildcard) */
+  sources?: Array<string | RegExp>;
+  /** Only apply when this returns true for the event */
+  when?: (event: TransactionEvent) => boolean;
+}
+
+/**
+ * CommandHook - Any of the hook types the builder accepts
+ */
+export type CommandHook = PreInvokeHook | PostInvokeHook | AroundInvokeHook | ErrorHook | FinallyHook;
+
+/**
+ * HookByStage - The hook type each stage takes
+ * 
+ * Pre, post and finally hooks all look like (command, context) => Promise to
+ * the runtime, so a hook can't be told apart by looking at it. Anything that
+ * takes a hook for an existing stage says which stage it means, and this is
+ * how the compiler holds it to that.
+ */
+export interface HookByStage {
+  pre: PreInvokeHook;
+  post: PostInvokeHook;
+  around: AroundInvokeHook;
+  error: ErrorHook;
+  finally: FinallyHook;
+}
+
+/**
+ * HookBinding - A hook together with its options
+ * 
+ * This is how hooks contributed through the DI container carry their scoping:
+ * register `{ hook, options }` instead of the bare hook function.
+ */
+export interface HookBinding<H> {
+  hook: H;
+  options?: HookOptions;
+}
+
+/**
+ * HookDescriptor - Describes a hook in a builder's pipeline
+ */
+export interface HookDescriptor {
+  /** The pipeline stage the hook runs in */
+  stage: HookStage;
+  /** The hook's name (from its options, else the function name, else "anonymous") */
+  name: string;
+  /** The hook's priority within its stage */
+  priority: number;
+  /** The event types the hook is limited to (undefined means all of them) */
+  eventTypes?: string[];
+  /** True when the hook also depends on the event's source or a predicate */
+  conditional: boolean;
+}
+
+/**
+ * TimeoutOptions - Which events a timeout applies to
+ * 
+ * A timeout for specific event types beats the default one, whatever order
+ * they were added in - MATCH_STORE_TO_PRODUCT can be given longer than
+ * everything else without the default having to know about it.
+ */
+export interface TimeoutOptions {
+  /** Only apply to these event types (otherwise it's the default for every event) */
+  eventTypes?: string[];
+}
+
+/**
+ * BackoffOptions - How long to wait between attempts
+ * 
+ * The wait doubles (by default) after every failed attempt: 100ms, 200ms,
+ * 400ms... A service that's struggling gets room to recover instead of a
+ * steady hammering from everybody retrying at once.
+ */
+export interface BackoffOptions {
+  /** Wait before the second attempt */
+  initialDelayMs: number;
+  /** Growth factor for every following wait (default 2) */
+  multiplier?: number;
+  /** Upper bound on any single wait */
+  maxDelayMs?: number;
+}
+
+/**
+ * RetryAttempt - A failed attempt that's about to be retried
+ */
+export interface RetryAttempt {
+  /** The event the command is handling */
+  event: TransactionEvent;
+  /** The attempt that just failed (1 for the first) */
+  attempt: number;
+  /** Total number of attempts allowed */
+  maxAttempts: number;
+  /** Why it failed */
+  error: Error;
+  /** How long the next attempt waits */
+  delayMs: number;
+}
+
+/**
+ * RetryOptions - When and how often a failed command is tried again
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Waits between attempts (100ms, doubling, when not given) */
+  backoff?: BackoffOptions;
+  /** Randomizes each wait by up to this fraction (0 to 1), so retries don't arrive in lockstep */
+  jitter?: number;
+  /** Narrows which errors are retried - errors marked `retryable: false` never are */
+  retryOn?: (error: Error) => boolean;
+  /** Told about every retry before its wait starts - where logging and metrics plug in */
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+/**
+ * CommandFactory - Creates the command that handles an event
+ */
+export type CommandFactory = (event: TransactionEvent) => TransactionCommand;
+
+/**
+ * CommandRoute - Matches events to a factory by pattern instead of exact type
+ * 
+ * A string route is a glob over the event type (`STORE_*`, `*_MATCH`); a
+ * function route is a predicate over the whole event.
+ */
+export type CommandRoute = string | ((event: TransactionEvent) => boolean);
+
+/**
+ * CommandFactoryOptions - What happens when an event type already has a factory
+ */
+export interface CommandFactoryOptions {
+  /** Replace the existing factories for the event type instead of failing */
+  override?: boolean;
+  /** Add another handler for the event type (fan-out) - every handler must be multi */
+  multi?: boolean;
+}
+
+/**
+ * CommandRouteOptions - Tie-breaking and replacement rules for routes
+ */
+export interface CommandRouteOptions extends CommandFactoryOptions {
+  /** Lower is checked first among routes of the same kind (default 0) */
+  priority?: number;
+}
+
+/**
+ * CommandRegistration - Maps an event type to the factory that builds its command
+ * 
+ * Registrations are contributed to the DI container as multi-bindings, so the
+ * module that owns a command also owns its wiring, and the command builder just
+ * collects whatever was registered.
+ */
+export interface CommandRegistration {
+  /** The event type the command handles (an exact type, or a glob like `STORE_*`) */
+  eventType: string;
+  /** Creates the command for an event of that type */
+  factory: CommandFactory;
+  /** Replace a factory registered earlier for the same event type instead of failing */
+  override?: boolean;
+  /** Priority among glob routes (see CommandRouteOptions) */
+  priority?: number;
+  /** One of several handlers for the event type (see CommandFactoryOptions) */
+  multi?: boolean;
+}
+
 /**
  * TransactionCommandBuilder - Implements the Builder Pattern
  * 
@@ -158,12 +400,187 @@ export type PostInvokeHook = (command: TransactionCommand, context: CommandConte
  * clean, maintainable systems. It's one of my go-to patterns for complex object creation.
  */
 export interface TransactionCommandBuilder {
-  /** Creates a command for the given event with all registered hooks */
+  /** Registers a factory for an event type (throws if one exists, unless override or multi is set) */
+  registerCommandFactory(eventType: string, factory: CommandFactory, options?: CommandFactoryOptions): void;
+  /** Removes the factories for an event type (or the glob route for a pattern), returning whether there were any */
+  unregisterCommandFactory(eventType: string): boolean;
+  /** Routes events matching a glob pattern or predicate to a factory */
+  registerCommandRoute(route: CommandRoute, factory: CommandFactory, options?: CommandRouteOptions): void;
+  /** Checks whether an exact or glob route (or, given an event, a predicate route) handles an event */
+  hasHandler(eventOrType: string | TransactionEvent): boolean;
+  /** Lists the event types that have a registered factory, then the glob route patterns */
+  getRegisteredEventTypes(): string[];
+  /** Creates the command for an event that has exactly one handler, with all registered hooks */
   buildCommand(event: TransactionEvent): TransactionCommand;
+  /** Creates one hook-wrapped command per handler of the event */
+  buildCommands(event: TransactionEvent): TransactionCommand[];
+  /** Returns a builder that uses this factory for events no route matches, instead of throwing */
+  withFallbackHandler(factory: CommandFactory): TransactionCommandBuilder;
   /** Adds a hook to run before command execution */
-  withPreInvokeHook(hook: PreInvokeHook): TransactionCommandBuilder;
+  withPreInvokeHook(hook: PreInvokeHook, options?: HookOptions): TransactionCommandBuilder;
   /** Adds a hook to run after command execution */
-  withPostInvokeHook(hook: PostInvokeHook): TransactionCommandBuilder;
+  withPostInvokeHook(hook: PostInvokeHook, options?: HookOptions): TransactionCommandBuilder;
+  /** Adds a hook that wraps the whole invocation (pre hooks, command and post hooks) */
+  withAroundHook(hook: AroundInvokeHook, options?: HookOptions): TransactionCommandBuilder;
+  /** Adds a hook that runs when the invocation throws, and may recover or rethrow */
+  withErrorHook(hook: ErrorHook, options?: HookOptions): TransactionCommandBuilder;
+  /** Adds a hook that always runs after the invocation */
+  withFinallyHook(hook: FinallyHook, options?: HookOptions): TransactionCommandBuilder;
+  /** Returns a builder that aborts and fails commands that run longer than the timeout */
+  withTimeout(ms: number, options?: TimeoutOptions): TransactionCommandBuilder;
+  /** Returns a builder that re-invokes commands that fail with a retryable error */
+  withRetry(options: RetryOptions): TransactionCommandBuilder;
+  /** Returns a builder without the named hook */
+  withoutHook(name: string): TransactionCommandBuilder;
+  /** Returns a builder with the named hook swapped for another one of the same stage (keeps its options and priority) */
+  replaceHook<S extends HookStage>(name: string, stage: S, hook: HookByStage[S]): TransactionCommandBuilder;
+  /** Lists every hook, in pipeline order per stage */
+  listHooks(): HookDescriptor[];
+  /** Lists the hooks that apply to events of the given type, in pipeline order per stage */
+  getApplicableHooks(eventType: string): HookDescriptor[];
+}
+
+/**
+ * ProcessingStatus - How processing an event (or one of its handlers) ended
+ * 
+ * "Failed" on its own tells an operator nothing about what to do next. A
+ * rejected payload goes back to whoever sent it, an unauthorized source goes
+ * to security, an unhandled event goes to whoever owns the routing - and only
+ * a plain failure is something to retry or page someone about.
+ */
+export type ProcessingStatus = 'succeeded' | 'failed' | 'rejected-by-validation' | 'unauthorized' | 'unhandled';
+
+/**
+ * ProcessingOutcome - A status together with the error that goes with it
+ * 
+ * The status says which error class to expect, and the compiler knows it
+ * too: check for 'rejected-by-validation' and `error` is a ValidationError,
+ * no instanceof needed. A plain 'failed' can be anything a command throws
+ * (a CommandTimeoutError or a CircuitOpenError among them), so it's an Error.
+ * Unhandled only comes with an error when no command could be built at all -
+ * the fallback handler picking an event up isn't a failure.
+ */
+export type ProcessingOutcome =
+  | { status: 'succeeded'; error?: undefined }
+  | { status: 'failed'; error: Error }
+  | { status: 'rejected-by-validation'; error: ValidationError }
+  | { status: 'unauthorized'; error: AuthorizationError }
+  | { status: 'unhandled'; error?: UnhandledEventError };
+
+/**
+ * HandlerResult - The outcome of one handler's command for an event
+ * 
+ * With fan-out, one event can succeed in one handler and fail in another. A
+ * single "it threw" for the whole event hides which half of the work happened -
+ * and that's the half you need to know about when you clean up.
+ * 
+ * `status` is how the command (including its hooks) ended - unhandled when it
+ * was the fallback - and `error` is why it failed, if it did.
+ */
+export type HandlerResult = ProcessingOutcome & {
+  /** Which of the event's handlers this was - its position in registration order, from 0 */
+  handler: number;
+  /** The command that handled the event */
+  commandId: string;
+  /** How long the invocation took */
+  durationMs: number;
+  /** Side effects the command emitted (none when it failed) */
+  sideEffects: TransactionEvent[];
+  /** The context state the hooks and the command left behind */
+  state: Record<string, any>;
+  /** How many times the command was tried (more than 1 when retries kicked in) */
+  attempts: number;
+  /** The hook or command the error came out of, e.g. "pre hook 'auth'", when it's known */
+  failedIn?: string;
+  /** True when the handler had already succeeded for this event and this is the stored result */
+  replayed?: boolean;
+};
+
+/**
+ * ProcessingResult - Everything that happened to an event
+ * 
+ * The status answers "did it work?" for the event as a whole: succeeded when
+ * every handler succeeded, otherwise the status of the first handler that
+ * didn't, with that handler's error (or why no command could be built).
+ * 
+ * Most events have exactly one handler, and for those the command ID and the
+ * final context state are right here at the top. A fanned-out event has one
+ * of each per handler, so they're only in `handlers` - picking one of them
+ * for the top level would just be a guess about which one you meant.
+ */
+export type ProcessingResult = ProcessingOutcome & {
+  /** The event that was processed */
+  eventId: string;
+  /** Its type */
+  eventType: string;
+  /** The command that handled the event, when exactly one did */
+  commandId?: string;
+  /** The context state its hooks and command left behind, when exactly one command handled the event */
+  state?: Record<string, any>;
+  /** How long processing took, all handlers included */
+  durationMs: number;
+  /** Side effects from every handler that succeeded, in handler order */
+  sideEffects: TransactionEvent[];
+  /** One result per handler, in handler order (empty when no command could be built) */
+  handlers: HandlerResult[];
+  /** True when every handler had already succeeded for this event - nothing ran, these are the stored results */
+  replayed?: boolean;
+};
+
+/**
+ * ProcessEventOptions - Narrows down what processEvent runs
+ */
+export interface ProcessEventOptions {
+  /**
+   * Only run the handlers at these positions (see HandlerResult.handler).
+   * A dead letter redrive uses this to re-run just the handlers that failed -
+   * the ones that succeeded already did their work, side effects included.
+   */
+  handlers?: number[];
+}
+
+/**
+ * ChainOptions - How far processEventChain follows side effects
+ * 
+ * The guards are there because event chains have a way of turning into
+ * loops. Somebody adds a handler for MATCH_UPDATED that emits MATCH_UPDATED,
+ * and without a limit you find out from the cloud bill.
+ */
+export interface ChainOptions {
+  /** Process all events at one depth before the next (default), or follow each chain to its end first */
+  order?: 'breadth-first' | 'depth-first';
+  /** Deepest level to dispatch - the original event is depth 0 */
+  maxDepth?: number;
+  /** Most events to dispatch in total, the original event included */
+  maxEvents?: number;
+}
+
+/**
+ * CausationNode - One event in a causation tree, and the events it caused
+ */
+export interface CausationNode {
+  /** The event */
+  event: TransactionEvent;
+  /** How many steps it is from the original event (0 for the original) */
+  depth: number;
+  /** How processing went - missing when the event wasn't dispatched */
+  result?: ProcessingResult;
+  /** Why the event wasn't dispatched: nothing routes it, or a guard stopped the chain */
+  skipped?: 'no-handler' | 'max-depth' | 'max-events';
+  /** The side effects its handlers emitted, in the order they were emitted */
+  children: CausationNode[];
+}
+
+/**
+ * ChainResult - Everything that happened because of one event
+ */
+export interface ChainResult {
+  /** The original event, with everything it caused underneath */
+  root: CausationNode;
+  /** How many events were dispatched, the original event included */
+  processedEvents: number;
+  /** True when a guard stopped the chain before it ran out of events */
+  truncated: boolean;
 }
 
 /**
@@ -182,12 +599,50 @@ export interface TransactionCommandBuilder {
  * handling would otherwise be scattered across the codebase.
  */
 export interface TransactionManager {
-  /** Processes an event by building and executing the appropriate command */
-  processEvent(event: TransactionEvent): Promise<void>;
+  /** Processes an event by building and executing its commands, and reports how it went */
+  processEvent(event: TransactionEvent, options?: ProcessEventOptions): Promise<ProcessingResult>;
+  /** Processes an event and every side effect it causes that has a handler, until nothing's left */
+  processEventChain(event: TransactionEvent, options?: ChainOptions): Promise<ChainResult>;
   /** Handles errors that occur during event processing */
   handleError(event: TransactionEvent, error: Error): Promise<void>;
 }
 
+/**
+ * DispatcherStats - A snapshot of an EventDispatcher's workload
+ */
+export interface DispatcherStats {
+  /** Events accepted and waiting for their turn */
+  queued: number;
+  /** Events whose callers are waiting for room in a full queue */
+  waiting: number;
+  /** Events being processed right now */
+  inFlight: number;
+  /** Partition keys with an event queued or in flight */
+  partitions: number;
+  /** Whether drain() has been called (new events are refused) */
+  draining: boolean;
+}
+
+/**
+ * EventDispatcher - Feeds events to the transaction manager concurrently, in order per partition
+ * 
+ * processEvent handles whatever it's given, whenever it's given it. That's
+ * fine for one event at a time, and wrong for a burst: two events for the
+ * same store processed side by side can finish in either order. The
+ * dispatcher sits in front of the manager and runs events from different
+ * partitions (stores, say) at the same time, while events that share a
+ * partition key go through strictly one after another, in the order they
+ * were dispatched.
+ */
+export interface EventDispatcher {
+  /** Queues an event and reports how it went once it's been processed */
+  dispatch(event: TransactionEvent): Promise<ProcessingResult>;
+  /** Refuses new events and resolves once everything already dispatched is done */
+  drain(): Promise<void>;
+  /** What the dispatcher is doing right now */
+  getStats(): DispatcherStats;
+}
+
 /**
  * Service Interfaces - Define contracts for system services
  * 
@@ -231,6 +686,8 @@ export interface Logger {
 export interface MetricsService {
   /** Records information about command execution */
   recordExecution(commandId: string, data: Record<string, any>): void;
+  /** Records something notable that isn't a command execution (a circuit opening, say) */
+  recordEvent(name: string, data: Record<string, any>): void;
 }
 
 /**
@@ -255,4 +712,242 @@ export interface ValidationService {
 export interface AuthService {
   /** Checks if a source is authorized to trigger an event type */
   checkAuthorization(source: string, eventType: string): boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * DeadLetter - An event that couldn't be processed, parked for a human
+ * 
+ * Everything you need to decide what to do with it is here: the event as it
+ * arrived, what went wrong and where, and how often it's gone wrong. There's
+ * one dead letter per event - redriving an event that fails again updates its
+ * dead letter instead of adding another one.
+ */
+export interface DeadLetter {
+  /** The event that failed */
+  event: TransactionEvent;
+  /** How processing ended the last time */
+  status: ProcessingStatus;
+  /** The last error (plain data - it has to survive being written to disk) */
+  error: { name: string; message: string; stack?: string };
+  /** Attempts the last time it was processed (retries included) */
+  attempts: number;
+  /** The hook or command the last error came out of, when it's known */
+  failedIn?: string;
+  /** The command that failed, when one was built */
+  commandId?: string;
+  /** The handlers that didn't succeed - a redrive runs only these (not set when no command could be built) */
+  failedHandlers?: number[];
+  /** How many times the event has been dead-lettered (1 until a redrive fails) */
+  failureCount: number;
+  /** When it was first dead-lettered (ISO timestamp) */
+  firstFailedAt: string;
+  /** When it was last dead-lettered (ISO timestamp) */
+  lastFailedAt: string;
+}
+
+/**
+ * DeadLetterFilter - Picks out dead letters for listing, redriving or purging
+ */
+export interface DeadLetterFilter {
+  /** Only dead letters for this event type */
+  eventType?: string;
+  /** Only dead letters that ended with this status */
+  status?: ProcessingStatus;
+}
+
+/**
+ * DeadLetterQueue - Where failed and unhandled events go instead of vanishing
+ * 
+ * A failed event that only exists in a log line is a failed event nobody's
+ * going to fix. Once it's in the dead letter queue it can be listed, looked at,
+ * and - after the bug is fixed or the dependency is back - redriven through the
+ * normal pipeline, hooks and all.
+ */
+export interface DeadLetterQueue {
+  /** Records an event that didn't succeed (updates its dead letter if it already has one) */
+  add(event: TransactionEvent, result: ProcessingResult): Promise<DeadLetter>;
+  /** Lists dead letters, oldest first */
+  list(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+  /** Looks up the dead letter for an event */
+  get(eventId: string): Promise<DeadLetter | undefined>;
+  /** Re-runs a dead-lettered event's failed handlers, removing its dead letter if they succeed */
+  redrive(eventId: string): Promise<ProcessingResult>;
+  /** Redrives every matching dead letter, one at a time, oldest first */
+  redriveAll(filter?: DeadLetterFilter): Promise<ProcessingResult[]>;
+  /** Removes matching dead letters (all of them without a filter), returning how many went */
+  purge(filter?: DeadLetterFilter): Promise<number>;
+}
+
+/**
+ * IdempotencyStore - Remembers which handlers have processed which events, and how it went
+ * 
+ * Every broker I've worked with delivers at least once, never exactly once.
+ * A consumer that crashes before it acks, a portal that retries on a slow
+ * response - and the same event shows up twice. Processing it twice means two
+ * matches and two check-ins, and a rep who gets paid twice. The store is how
+ * the transaction manager recognizes a redelivery and answers it with the
+ * original result instead.
+ * 
+ * It works per handler, not per event. When a fanned-out event's check-in
+ * worked and its commission didn't, the redelivery has to run the commission
+ * again - and must not run the check-in again. Remembering only whole events
+ * that succeeded gets the second half wrong.
+ * 
+ * Entries expire: a store that remembers every event forever is a memory leak
+ * with a business justification.
+ */
+export interface IdempotencyStore {
+  /** The stored result of one handler for an event, unless there's none or it has expired */
+  get(eventId: string, handler: number): Promise<HandlerResult | undefined>;
+  /** Stores a handler's result for an event (replacing any earlier one) */
+  set(eventId: string, handler: number, result: HandlerResult): Promise<void>;
+}
+
+/**
+ * CircuitState - Where a circuit breaker is in its cycle
+ * 
+ * - closed: calls go through, failures are counted
+ * - open: calls fail fast until the cooldown is over
+ * - half-open: one trial call goes through to see whether things have recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * CircuitBreakerService - Stops calling a dependency that keeps failing
+ * 
+ * When a downstream service is down, hitting it with every event just makes
+ * each event wait for its own timeout and keeps the pressure on a service
+ * that's trying to come back. I learned this one the hard way, watching a
+ * payment provider's outage turn into ours. Each key gets its own circuit, so
+ * one broken dependency doesn't take the healthy ones down with it.
+ */
+export interface CircuitBreakerService {
+  /** Runs an operation through the key's circuit (fails fast with CircuitOpenError while it's open) */
+  execute<T>(key: string, operation: () => Promise<T>): Promise<T>;
+  /** The current state of the key's circuit */
+  getState(key: string): CircuitState;
+}
+
+/**
+ * CommissionTier - A revenue threshold and the commission rate that applies above it
+ */
+export interface CommissionTier {
+  /** Human-readable name of the tier (shows up in the logs) */
+  name: string;
+  /** The tier applies when revenue is strictly greater than this amount */
+  minRevenue: number;
+  /** Commission rate as a fraction (0.15 = 15%) */
+  rate: number;
+}
+
+/**
+ * AppConfig - The shape of the application's configuration
+ * 
+ * Every setting the business code depends on lives here, grouped by the part of
+ * the system that reads it. I've lost count of the incidents that came down to
+ * a magic number somebody forgot was duplicated in three places - if it's a
+ * business rule or a tuning knob, it belongs in config, not in a hook.
+ */
+export interface AppConfig {
+  /** Commission rules used by the commission calculator and rep check-in */
+  commissions: {
+    /** Tiers, checked from the highest threshold down */
+    tiers: CommissionTier[];
+    /** Rate applied when no tier matches */
+    standardRate: number;
+    /** Rate used by RepCheckIn to estimate the rep's commission */
+    repCheckInRate: number;
+    /** Revenue assumed when an event doesn't carry one */
+    defaultRevenue: number;
+  };
+  /** Revenue splits reported by the revenue analytics hook */
+  revenueSplits: {
+    /** RepRally's cut of the revenue (fraction) */
+    companyShare: number;
+    /** The rep's commission (fraction) */
+    repCommission: number;
+    /** Multiplier used to estimate the brand exposure value */
+    brandExposureMultiplier: number;
+  };
+  /** Simulated processing delays for the commands, in milliseconds */
+  commands: {
+    matchStoreDelayMs: number;
+    repCheckInDelayMs: number;
+    /** How long any command may run before it's aborted */
+    timeoutMs: number;
+    /** Timeouts for specific event types, overriding timeoutMs */
+    eventTypeTimeoutsMs: Record<string, number>;
+    /** How failed commands are retried (maxAttempts 1 turns retries off) */
+    retry: {
+      maxAttempts: number;
+      initialDelayMs: number;
+      multiplier: number;
+      maxDelayMs: number;
+      jitter: number;
+    };
+    /** When a failing command type stops being called for a while */
+    circuitBreaker: {
+      /** Consecutive failures that open the circuit */
+      failureThreshold: number;
+      /** How long an open circuit fails fast before letting a trial call through */
+      cooldownMs: number;
+      /** Whether circuits are per event type or per command class */
+      keyBy: 'eventType' | 'commandClass';
+    };
+  };
+  /** How the transaction manager processes events */
+  processing: {
+    /** Run the handlers of a fanned-out event one after another, or all at once */
+    fanOut: 'sequential' | 'parallel';
+    /** Defaults for processEventChain */
+    chain: {
+      order: 'breadth-first' | 'depth-first';
+      maxDepth: number;
+      maxEvents: number;
+    };
+    /** How the event dispatcher queues and partitions events */
+    dispatcher: {
+      /** Events processed at the same time (never two from the same partition) */
+      concurrency: number;
+      /** Events that may wait for their turn before the queue counts as full */
+      maxQueueSize: number;
+      /** What dispatch() does when the queue is full: fail, or wait for room */
+      whenFull: 'reject' | 'wait';
+      /** Event properties tried in order for the partition key, e.g. "payload.storeId" */
+      partitionBy: string[];
+    };
+  };
+  /** How processed events are remembered, so redeliveries aren't processed twice */
+  idempotency: {
+    /** In memory (forgotten on restart) or in a JSONL file */
+    store: 'memory' | 'file';
+    /** How long a processed event is remembered */
+    ttlMs: number;
+    /** JSONL file for the file store, relative to the project root */
+    file: string;
+  };
+  /** Where the dead letter queue keeps failed events */
+  deadLetters: {
+    /** JSONL file, relative to the project root */
+    file: string;
+  };
+  /** Authorization rules for BasicAuthService */
+  auth: {
+    /** Maps an event source to the event types it may trigger */
+    authorizedSources: Record<string, string[]>;
+  };
+}
+
+/**
+ * ConfigService - Service for reading application configuration
+ * 
+ * Consumers ask for a whole section at a time and get it fully typed. Where the
+ * values came from (defaults, an environment file, environment variables) is the
+ * implementation's business - which is exactly what makes config easy to fake in tests.
+ */
+export interface ConfigService {
+  /** The environment the configuration was loaded for (development, production, ...) */
+  readonly environment: string;
+  /** Returns a configuration section */
+  get<K extends keyof AppConfig>(section: K): AppConfig[K];
+}
@@ -33,11 +33,17 @@
 import { 
   PreInvokeHook, 
   PostInvokeHook, 
+  AroundInvokeHook,
+  ErrorHook,
+  FinallyHook,
   Logger, 
   MetricsService, 
   ValidationService, 
-  AuthService 
+  AuthService,
+  ConfigService,
+  CircuitBreakerService
 } from '../core/types';
+import { AuthorizationError, ValidationError } from '../core/errors';
 
 /**
  * Creates a hook that logs command execution information
@@ -60,6 +66,80 @@ export function createLoggingHook(logger: Logger): PreInvokeHook {
   };
 }
 
+/**
+ * Creates a hook that times the whole command invocation
+ * 
+ * This is the "withTiming" capability, and it's the textbook case for an
+ * around hook: a pre hook can start a clock and a post hook can stop it, but
+ * the post hook never runs when something throws - and then the slow failures,
+ * the ones you actually care about, are exactly the ones you don't measure.
+ * 
+ * Register it first so it's the outermost hook and the time includes every
+ * other hook, not just the command.
+ * 
+ * @param logger The logger service to report timings to
+ * @returns A hook that logs how long each invocation took, successful or not
+ */
+export function createTimingHook(logger: Logger): AroundInvokeHook {
+  return async (command, context, next) => {
+    const startedAt = Date.now();
+    try {
+      await next();
+      logger.log(`⏱️ ${command.commandId} completed in ${Date.now() - startedAt}ms`);
+    } catch (error) {
+      logger.log(`⏱️ ${command.commandId} failed after ${Date.now() - startedAt}ms`);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Creates a hook that runs commands through a circuit breaker
+ * 
+ * The "withCircuitBreaker" capability. It's an around hook because it has to
+ * be able to NOT call next() - that's the whole point of an open circuit -
+ * and it has to see how next() turned out to know whether the dependency is
+ * healthy.
+ * 
+ * Circuits are keyed by event type by default. Key by command class when
+ * several event types are handled by the same command (and so hit the same
+ * dependency) - one circuit for the dependency, not one per door into it.
+ * 
+ * It sits inside the retry policy, so every attempt counts, and a
+ * CircuitOpenError ends the retries straight away.
+ * 
+ * @param breaker The circuit breaker service that holds the circuits
+ * @param keyBy What a circuit is per - event type or command class
+ * @returns A hook that fails fast while the command's circuit is open
+ */
+export function createCircuitBreakerHook(
+  breaker: CircuitBreakerService,
+  keyBy: 'eventType' | 'commandClass' = 'eventType'
+): AroundInvokeHook {
+  return async (command, context, next) => {
+    const key = keyBy === 'commandClass' ? command.constructor.name : context.event.type;
+    await breaker.execute(key, next);
+  };
+}
+
+/**
+ * Creates a hook that logs failed command executions
+ * 
+ * This is the observe-only kind of error hook: it logs and returns nothing, so
+ * the error carries on to the transaction manager untouched. What it adds is
+ * the command's point of view - which command failed, for which event, and
+ * what it had put in the shared state by then. That's the stuff you need at 3AM
+ * and never have.
+ * 
+ * @param logger The logger service to use
+ * @returns A hook that logs errors without handling them
+ */
+export function createErrorLoggingHook(logger: Logger): ErrorHook {
+  return async (command, context, error) => {
+    logger.error(`💥 Command ${command.commandId} failed for event ${context.event.type} (state: ${JSON.stringify(context.state)})`, error);
+  };
+}
+
 /**
  * Creates a hook that records metrics about command execution
  * 
@@ -72,15 +152,22 @@ export function createLoggingHook(logger: Logger): PreInvokeHook {
  * 2. Business logic remains clean and focused
  * 3. Metrics implementation can be changed without affecting commands
  * 
+ * It's a finally hook rather than a post hook: a post hook never sees the
+ * commands that blew up, and a dashboard that only counts successes is lying
+ * to you. Every execution gets a status and a duration.
+ * 
  * @param metrics The metrics service to use
- * @returns A hook that records metrics after command execution
+ * @returns A hook that records metrics after every command execution
  */
-export function createMetricsHook(metrics: MetricsService): PostInvokeHook {
-  return async (command, context) => {
+export function createMetricsHook(metrics: MetricsService): FinallyHook {
+  return async (command, context, error) => {
     metrics.recordExecution(command.commandId, {
       eventType: context.event.type,
+      status: error ? 'failed' : 'succeeded',
+      durationMs: Date.now() - context.startedAt.getTime(),
       sideEffects: context.eventCollector.getEvents().length,
-      executionTime: new Date().toISOString()
+      executionTime: new Date().toISOString(),
+      ...(error ? { error: error.message } : {})
     });
   };
 }
@@ -97,6 +184,8 @@ export function createMetricsHook(metrics: MetricsService): PostInvokeHook {
  * 2. Commands don't need to repeat validation logic
  * 3. Validation can be turned on/off based on environment or context
  * 
+ * It fails with a ValidationError, which the retry policy knows not to retry.
+ * 
  * @param validator The validation service to use
  * @returns A hook that validates event payloads before command execution
  */
@@ -106,7 +195,7 @@ export function createValidationHook(validator: ValidationService): PreInvokeHoo
     const isValid = validator.validate(context.event.type, context.event.payload);
     if (!isValid) {
       console.log(`❌ Validation failed for ${context.event.type}`);
-      throw new Error(`Invalid event payload for ${context.event.type}`);
+      throw new ValidationError(context.event.type);
     }
     console.log(`✅ Validation passed for ${context.event.type}`);
   };
@@ -124,6 +213,8 @@ export function createValidationHook(validator: ValidationService): PreInvokeHoo
  * 2. Business logic remains clean and focused
  * 3. Security policies can be updated without changing commands
  * 
+ * A refused source gets an AuthorizationError - final, never retried.
+ * 
  * @param authService The auth service to use
  * @returns A hook that checks authorization before command execution
  */
@@ -137,7 +228,7 @@ export function createAuthHook(authService: AuthService): PreInvokeHook {
     
     if (!isAuthorized) {
       console.log(`⛔ Authorization denied for ${context.event.metadata.source}`);
-      throw new Error(`Unauthorized source: ${context.event.metadata.source}`);
+      throw new AuthorizationError(context.event.metadata.source, context.event.type);
     }
     console.log(`✅ Authorization approved for ${context.event.metadata.source}`);
   };
@@ -155,9 +246,13 @@ export function createAuthHook(authService: AuthService): PreInvokeHook {
  * 2. Commands stay focused on their primary business responsibility
  * 3. Analytics can be added/removed without changing command code
  * 
+ * The splits come from the revenueSplits config section, so finance can change
+ * them without a deploy that touches this file.
+ * 
+ * @param config The config service providing the revenue splits
  * @returns A hook that calculates revenue analytics after command execution
  */
-export function createRevenueAnalyticsHook(): PostInvokeHook {
+export function createRevenueAnalyticsHook(config: ConfigService): PostInvokeHook {
   return async (command, context) => {
     // Only process events that have potential revenue
     if (context.event.payload.potentialRevenue) {
@@ -167,9 +262,10 @@ export function createRevenueAnalyticsHook(): PostInvokeHook {
       // Calculate various business metrics
       // These calculations are in a hook because they're secondary
       // to the main business operation but still important
-      const companyRevenue = revenue * 0.20; // 20% cut for RepRally
-      const repCommission = revenue * 0.15; // 15% commission for reps
-      const brandExposure = revenue * 2.5; // 2.5x leverage on brand exposure
+      const splits = config.get('revenueSplits');
+      const companyRevenue = revenue * splits.companyShare; // RepRally's cut
+      const repCommission = revenue * splits.repCommission; // Commission for reps
+      const brandExposure = revenue * splits.brandExposureMultiplier; // Leverage on brand exposure
       
       console.log(`💰 Company Revenue: $${companyRevenue.toFixed(2)}`);
       console.log(`💵 Rep Commission: $${repCommission.toFixed(2)}`);
@@ -193,39 +289,43 @@ export function createRevenueAnalyticsHook(): PostInvokeHook {
  * 2. Commands can focus on their core responsibility
  * 3. Commission rules can be updated in one place
  * 
+ * That "one place" is the commissions config section: the tiers are checked
+ * from the highest threshold down, and the standard rate applies when none match.
+ * 
+ * It only makes sense for rep assignment events, so register it scoped to
+ * them: `{ eventTypes: ['STORE_MATCHED', 'ASSIGN_REP'] }`.
+ * 
+ * @param config The config service providing the commission tiers
  * @returns A hook that calculates commissions before command execution
  */
-export function createCommissionCalculatorHook(): PreInvokeHook {
+export function createCommissionCalculatorHook(config: ConfigService): PreInvokeHook {
   return async (command, context) => {
-    // Only process rep assignment events
-    if (context.event.type === 'ASSIGN_REP' || context.event.type === 'STORE_MATCHED') {
-      console.log(`💼 Commission Calculator: Analyzing potential earnings...`);
-      
-      // Calculate tiered commission structure based on match value
-      // This business logic is in a hook because it's a shared calculation
-      // that might be used by multiple commands
-      const baseRevenue = context.event.payload.potentialRevenue || 1000;
-      let commissionRate = 0.10; // Default 10%
-      
-      if (baseRevenue > 10000) {
-        commissionRate = 0.20; // 20% for big deals
-        console.log(`🌟 Premium commission rate applied: 20%`);
-      } else if (baseRevenue > 5000) {
-        commissionRate = 0.15; // 15% for medium deals
-        console.log(`⭐ Enhanced commission rate applied: 15%`);
-      } else {
-        console.log(`✨ Standard commission rate applied: 10%`);
-      }
-      
-      const projectedCommission = baseRevenue * commissionRate;
-      
-      // Attach this data to the context so the command can use it
-      // This shows how hooks can enhance the context for commands
-      context.state.commissionRate = commissionRate;
-      context.state.projectedCommission = projectedCommission;
-      
-      console.log(`💵 Projected Commission: $${projectedCommission.toFixed(2)}`);
+    console.log(`💼 Commission Calculator: Analyzing potential earnings...`);
+    
+    // Calculate tiered commission structure based on match value
+    // This business logic is in a hook because it's a shared calculation
+    // that might be used by multiple commands
+    const commissions = config.get('commissions');
+    const baseRevenue = context.event.payload.potentialRevenue || commissions.defaultRevenue;
+    const tier = [...commissions.tiers]
+      .sort((a, b) => b.minRevenue - a.minRevenue)
+      .find(candidate => baseRevenue > candidate.minRevenue);
+    const commissionRate = tier ? tier.rate : commissions.standardRate;
+    
+    if (tier) {
+      console.log(`🌟 ${tier.name} commission rate applied: ${formatPercent(commissionRate)}`);
+    } else {
+      console.log(`✨ Standard commission rate applied: ${formatPercent(commissionRate)}`);
     }
+    
+    const projectedCommission = baseRevenue * commissionRate;
+    
+    // Attach this data to the context so the command can use it
+    // This shows how hooks can enhance the context for commands
+    context.state.commissionRate = commissionRate;
+    context.state.projectedCommission = projectedCommission;
+    
+    console.log(`💵 Projected Commission: $${projectedCommission.toFixed(2)}`);
   };
 }
 
@@ -240,50 +340,56 @@ export function createCommissionCalculatorHook(): PreInvokeHook {
  * 2. The same AI enhancement can be applied to multiple commands
  * 3. AI implementation can be updated without changing command code
  * 
+ * It expects a MATCH_STORE_TO_PRODUCT payload, so register it with
+ * `{ eventTypes: ['MATCH_STORE_TO_PRODUCT'] }`.
+ * 
  * @returns A hook that adds AI predictions before command execution
  */
 export function createAIPredictionHook(): PreInvokeHook {
   return async (command, context) => {
-    if (context.event.type === 'MATCH_STORE_TO_PRODUCT') {
-      console.log(`🤖 AI Match Predictor: Analyzing store-product compatibility...`);
-      
-      // In a real system, this would call a machine learning service
-      // Here we'll just simulate it with some random scoring
-      const products = context.event.payload.productList || [];
-      const storeId = context.event.payload.storeId;
-      
-      // Generate "AI" predictions for each product
-      // This complex transformation is a perfect candidate for a hook
-      // because it enhances the data without being core business logic
-      const enhancedProducts = products.map((product: any) => {
-        // Calculate a match score between 0-100
-        const baseScore = Math.floor(Math.random() * 60) + 40; // 40-100 range for demo
-        const volatility = Math.floor(Math.random() * 10) - 5; // +/- 5 points variation
-        const matchScore = Math.min(100, Math.max(0, baseScore + volatility));
-        
-        // For demo purposes, generate some "reasoning"
-        const reasons = [];
-        if (matchScore > 90) {
-          reasons.push('Similar store demographics', 'High regional demand', 'Strong category affinity');
-        } else if (matchScore > 70) {
-          reasons.push('Good category fit', 'Positive regional trends');
-        } else {
-          reasons.push('Basic demographic match', 'Potential to test market');
-        }
-        
-        return {
-          ...product,
-          aiMatchScore: matchScore,
-          aiMatchConfidence: matchScore > 80 ? 'HIGH' : matchScore > 60 ? 'MEDIUM' : 'LOW',
-          aiMatchReasons: reasons
-        };
-      });
+    console.log(`🤖 AI Match Predictor: Analyzing store-product compatibility...`);
+    
+    // In a real system, this would call a machine learning service
+    // Here we'll just simulate it with some random scoring
+    const products = context.event.payload.productList || [];
+    const storeId = context.event.payload.storeId;
+    
+    // Generate "AI" predictions for each product
+    // This complex transformation is a perfect candidate for a hook
+    // because it enhances the data without being core business logic
+    const enhancedProducts = products.map((product: any) => {
+      // Calculate a match score between 0-100
+      const baseScore = Math.floor(Math.random() * 60) + 40; // 40-100 range for demo
+      const volatility = Math.floor(Math.random() * 10) - 5; // +/- 5 points variation
+      const matchScore = Math.min(100, Math.max(0, baseScore + volatility));
       
-      // Replace the product list with our enhanced list
-      // This shows how hooks can transform the event data before processing
-      context.event.payload.productList = enhancedProducts;
+      // For demo purposes, generate some "reasoning"
+      const reasons = [];
+      if (matchScore > 90) {
+        reasons.push('Similar store demographics', 'High regional demand', 'Strong category affinity');
+      } else if (matchScore > 70) {
+        reasons.push('Good category fit', 'Positive regional trends');
+      } else {
+        reasons.push('Basic demographic match', 'Potential to test market');
+      }
       
-      console.log(`🧠 AI Match Prediction complete: ${enhancedProducts.length} products analyzed`);
-    }
+      return {
+        ...product,
+        aiMatchScore: matchScore,
+        aiMatchConfidence: matchScore > 80 ? 'HIGH' : matchScore > 60 ? 'MEDIUM' : 'LOW',
+        aiMatchReasons: reasons
+      };
+    });
+    
+    // Replace the product list with our enhanced list
+    // This shows how hooks can transform the event data before processing
+    context.event.payload.productList = enhancedProducts;
+    
+    console.log(`🧠 AI Match Prediction complete: ${enhancedProducts.length} products analyzed`);
   };
-}
\ No newline at end of file
+}
+
+/** Formats a rate like 0.15 as "15%" for the logs */
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
@@ -53,27 +53,27 @@
  */
 
 import { DIContainer, SERVICE_IDENTIFIERS } from "./core/di-container";
-import { ShadowTransactionCommandBuilder } from "./core/command-builder";
+import { ContainerValidationError } from "./core/container-graph";
 import { DefaultTransactionManager } from "./core/transaction-manager";
+import { CircuitOpenError, CommandTimeoutError } from "./core/errors";
 import {
   TransactionEvent,
-  TransactionManager,
-  TransactionCommandBuilder,
-  EventCollector
+  ProcessingResult,
+  CausationNode,
+  TransactionCommandBuilder
 } from "./core/types";
 
-// Import services - these implement the Strategy Pattern
-// Each service has a defined interface and could have multiple implementations
-import { ConsoleLogger } from "./services/logger";
-import { SimpleMetricsService } from "./services/metrics";
-import { JSONSchemaValidator } from "./services/validator";
-import { BasicAuthService } from "./services/auth";
-import { FifoEventCollector } from "./services/event-collector";
-
-// Import commands - these implement the Command Pattern
-// Each command encapsulates a business operation
-import { MatchStoreToProductCommand } from "./commands/match-store-command";
-import { RepCheckIn } from "./commands/rep-check-in-command";
+// Import container modules - each one registers a cohesive group of services:
+// the services themselves (Strategy Pattern), the commands (Command Pattern)
+// and the hooks (Decorator Pattern) that belong together
+import {
+  configModule,
+  coreModule,
+  observabilityModule,
+  resilienceModule,
+  securityModule,
+  rallyCommandsModule
+} from "./modules";
 
 // Import hooks - these implement the Decorator Pattern
 // Hooks add cross-cutting concerns to commands without modifying them
@@ -83,10 +83,30 @@ import {
   createValidationHook,
   createAuthHook,
   createRevenueAnalyticsHook,
-  createCommissionCalculatorHook,
-  createAIPredictionHook
+  createAIPredictionHook,
+  createCircuitBreakerHook
 } from "./hooks";
 
+/**
+ * Summarizes a processing result on one line
+ */
+function describeResult(result: ProcessingResult): string {
+  const outcome = result.error ? ` - ${result.error.name}: ${result.error.message}` : "";
+  const replayed = result.replayed ? " (replayed)" : "";
+  const handledBy = result.commandId ? ` by ${result.commandId}` : "";
+  return `${result.eventType} ${result.eventId}: ${result.status}${replayed}${handledBy} in ${result.durationMs}ms, ${result.sideEffects.length} side effect(s)${outcome}`;
+}
+
+/**
+ * Prints a causation tree, one event per line, indented by depth
+ */
+function printCausationTree(node: CausationNode): void {
+  const indent = "   " + "  ".repeat(node.depth);
+  const outcome = node.result ? describeResult(node.result) : `${node.event.type} ${node.event.id}: not dispatched (${node.skipped})`;
+  console.log(`${indent}${node.depth > 0 ? "└─ " : ""}${outcome}`);
+  node.children.forEach(printCausationTree);
+}
+
 /**
  * Main Demo Function
  *
@@ -124,158 +144,54 @@ async function runRepRallyDemo() {
   console.log("\n📦 SETTING UP DI CONTAINER...");
   const container = new DIContainer();
 
-  // Register our core services
+  // Register our services, grouped into modules
   // This demonstrates how the DI container decouples service creation from usage
   // Benefits:
   // 1. Services can be swapped without changing consumers
-  // 2. Lifetimes (singleton/transient) are managed centrally
+  // 2. Lifetimes (singleton/transient/scoped) are managed centrally
   // 3. Dependencies are explicit and traceable
+  // 4. Related registrations ship together, and two modules claiming the same
+  //    service is caught right here at load time
+  //
+  // Load order matters for hooks: each module's hooks run in the order they
+  // were registered, so observability (logging) comes before security (validation).
+  // Config goes first: everything that reads settings is created after it.
+  container.load(
+    configModule,
+    coreModule,
+    observabilityModule,
+    resilienceModule,
+    securityModule,
+    rallyCommandsModule
+  );
 
-  // Register logger as a singleton (one instance shared by all consumers)
-  // This shows the STRATEGY PATTERN - ConsoleLogger is one strategy for logging
-  container.register(SERVICE_IDENTIFIERS.LOGGER, {
-    useClass: ConsoleLogger,
-    lifetime: "singleton" // Singleton ensures all components use the same logger instance
-  });
-
-  // Register metrics service
-  // In a real app, we could swap this with a CloudMetricsService without changing consumers
-  container.register(SERVICE_IDENTIFIERS.METRICS_SERVICE, {
-    useClass: SimpleMetricsService,
-    lifetime: "singleton"
-  });
-
-  // Register validation service
-  // This could be swapped with different validation implementations (JSON Schema, Yup, etc.)
-  container.register(SERVICE_IDENTIFIERS.VALIDATION_SERVICE, {
-    useClass: JSONSchemaValidator,
-    lifetime: "singleton"
-  });
-
-  // Register auth service
-  // In a real app, this might be swapped with OAuth, JWT, or other auth strategies
-  container.register(SERVICE_IDENTIFIERS.AUTH_SERVICE, {
-    useClass: BasicAuthService,
-    lifetime: "singleton"
-  });
-
-  // Register event collector
-  // This service collects side effects from commands
-  container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, {
-    useClass: FifoEventCollector,
-    lifetime: "singleton"
-  });
-
-  // Set up our command builder with factories
-  // This demonstrates the FACTORY PATTERN combined with the BUILDER PATTERN
-  container.register(SERVICE_IDENTIFIERS.COMMAND_BUILDER, {
-    useFactory: () => {
-      // Create a new builder - this implements the BUILDER PATTERN
-      const builder = new ShadowTransactionCommandBuilder();
-
-      // Register command factories - this implements the FACTORY PATTERN
-      // Each factory creates a command for a specific event type
-      // Benefits:
-      // 1. Centralized command creation logic
-      // 2. Events are decoupled from their handlers
-      // 3. New command types can be added without changing existing code
-
-      // Factory for MATCH_STORE_TO_PRODUCT events
-      // This maps events to the appropriate command implementation
-      builder.registerCommandFactory(
-        "MATCH_STORE_TO_PRODUCT",
-        (event) => new MatchStoreToProductCommand(event)
-      );
-
-      // Factory for STORE_MATCHED events
-      // Notice how different event types can map to different command classes
-      builder.registerCommandFactory(
-        "STORE_MATCHED",
-        (event) => new RepCheckIn(event)
-      );
-
-      return builder;
-    },
-    lifetime: "singleton" // Singleton ensures consistent command creation throughout the app
-  });
-
-  // The transaction manager with our composed capabilities
-  // This demonstrates the MEDIATOR PATTERN and DECORATOR PATTERN working together
-  container.register(SERVICE_IDENTIFIERS.TRANSACTION_MANAGER, {
-    useFactory: (container) => {
-      // Resolve dependencies from the container - this is Dependency Injection in action
-      const commandBuilder = container.resolve<TransactionCommandBuilder>(
-        SERVICE_IDENTIFIERS.COMMAND_BUILDER
-      );
-      const eventCollector = container.resolve<EventCollector>(
-        SERVICE_IDENTIFIERS.EVENT_COLLECTOR
-      );
-
-=      // We compose capabilities onto our command builder using the builder pattern
-=      console.log("\n✨ COMPOSING CAPABILITIES WITH BUILDER PATTERN...");
-
-      // Each withX call creates a new builder with the additional capability
-      // This is the DECORATOR PATTERN in action - adding behavior without modifying commands
-      const enhancedBuilder = commandBuilder
-        // Add pre-invoke hooks for processing before command execution
-        // These hooks run in the order they're added
-
-        // Add logging capability - records what commands are executing
-        .withPreInvokeHook(
-          createLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER))
-        )
-
-        // Add validation capability - ensures events have valid payloads
-        .withPreInvokeHook(
-          createValidationHook(
-            container.resolve(SERVICE_IDENTIFIERS.VALIDATION_SERVICE)
-          )
-        )
-
-        // Add authorization capability - checks if the source is allowed to trigger this event
-        .withPreInvokeHook(
-          createAuthHook(container.resolve(SERVICE_IDENTIFIERS.AUTH_SERVICE))
-        )
-
-        // Add AI prediction capability - enhances data with ML predictions
-        // Note how business-specific capabilities can be composed just like technical ones
-        .withPreInvokeHook(createAIPredictionHook())
-
-        // Add commission calculator - prepares commission data for commands
-        .withPreInvokeHook(createCommissionCalculatorHook())
-
-        // Add post-invoke hooks for processing after command execution
-        // These run after the command completes successfully
-
-        // Add metrics capability - records performance and execution data
-        .withPostInvokeHook(
-          createMetricsHook(
-            container.resolve(SERVICE_IDENTIFIERS.METRICS_SERVICE)
-          )
-        )
-
-        // Add revenue analytics - calculates business metrics from results
-        .withPostInvokeHook(createRevenueAnalyticsHook());
-
-      // The beauty of this approach is that we can create different capability stacks
-      // for different scenarios without changing any command code!
-      console.log("✅ CAPABILITY COMPOSITION COMPLETE!");
-
-      // Create the transaction manager with our enhanced builder
-      // This implements the MEDIATOR PATTERN - centralizing event handling
-      return new DefaultTransactionManager(enhancedBuilder, eventCollector);
-    },
-    lifetime: "singleton" // Singleton ensures consistent event processing
-  });
+  // Dry-run the wiring before anything gets built
+  // Missing registrations, cycles, captive dependencies and broken definitions all
+  // show up here - no service is instantiated. The same call in
+  // test/container-wiring.test.ts makes wiring mistakes fail CI instead of production.
+  console.log("\n🩺 VALIDATING CONTAINER WIRING...");
+  const validation = container.validate();
+  if (!validation.valid) {
+    throw new ContainerValidationError(validation);
+  }
+  console.log("✅ Wiring is valid. Dependency graph (Mermaid):");
+  console.log(container.exportGraph("mermaid"));
+
+  // Run the async bootstrap phase before any events come in
+  // Eager singletons are built here in dependency order, awaiting any async factories
+  // (loading config, schemas, warming caches...) so plain resolve() works afterwards
+  // Building the transaction manager composes every registered hook onto the
+  // command builder with "withX" calls - the BUILDER and DECORATOR PATTERNS at work
+  console.log("\n⏳ INITIALIZING DI CONTAINER...");
+  console.log("✨ COMPOSING CAPABILITIES WITH BUILDER PATTERN...");
+  await container.initialize();
+  console.log("✅ CAPABILITY COMPOSITION COMPLETE!");
 
   // Get our transaction manager from the DI container
   // This is where we see the benefits of Dependency Injection - we just ask for what we need
-  const manager = container.resolve<TransactionManager>(
+  const manager = container.resolve(
     SERVICE_IDENTIFIERS.TRANSACTION_MANAGER
   );
-  const eventCollector = container.resolve<EventCollector>(
-    SERVICE_IDENTIFIERS.EVENT_COLLECTOR
-  );
 
   // Create a sample match store event
   // This demonstrates the Event-Driven Architecture pattern, where events trigger processing
@@ -325,102 +241,228 @@ async function runRepRallyDemo() {
     }
   };
 
-  // Process the match event
-  // This is the MEDIATOR PATTERN in action - the manager coordinates processing
-  console.log("\n🔄 PROCESSING STORE-PRODUCT MATCH...");
-  await manager.processEvent(matchEvent);
-
-  // Get the side effects generated by our command
-  // This demonstrates the EVENT SOURCING pattern - commands produce events
-  console.log("\n📊 CHECKING SIDE EFFECTS...");
-  const sideEffects = eventCollector.getEvents();
-  console.log(`Found ${sideEffects.length} side effects to process`);
-
-  // Process the first side effect (STORE_MATCHED)
-  // This shows how events can trigger chains of processing
-  if (sideEffects.length > 0) {
-    const storeMatchedEvent = sideEffects[0];
-    console.log(`\n🔄 PROCESSING SIDE EFFECT: ${storeMatchedEvent.type}`);
-    // The same manager processes different event types with different commands
-    await manager.processEvent(storeMatchedEvent);
-
-    // Notice how we've created a chain of processing:
-    // 1. MATCH_STORE_TO_PRODUCT event → MatchStoreToProductCommand
-    // 2. STORE_MATCHED event → AssignRepCommand
-    //
-    // This event-driven approach enables:
-    // - Loose coupling between processing steps
-    // - Clear audit trail of what happened
-    // - Ability to replay events for debugging
-    // - Parallel processing of independent events
+  // Process the match event, and everything it sets off
+  // This is the MEDIATOR PATTERN in action - the manager coordinates processing.
+  // Commands produce events (the EVENT SOURCING pattern), and processEventChain
+  // keeps dispatching the ones that have handlers until nothing's left:
+  // 1. MATCH_STORE_TO_PRODUCT event → MatchStoreToProductCommand
+  // 2. STORE_MATCHED event → RepCheckIn and RecordCommissionCommand
+  // 3. REP_CHECKED_IN and COMMISSION_RECORDED - nothing routes them, so the chain ends
+  //
+  // This event-driven approach enables:
+  // - Loose coupling between processing steps
+  // - Clear audit trail of what happened
+  // - Ability to replay events for debugging
+  // - Parallel processing of independent events
+  console.log("\n🔄 PROCESSING STORE-PRODUCT MATCH AND ITS SIDE EFFECTS...");
+  const chain = await manager.processEventChain(matchEvent);
+
+  // The whole causation tree comes back - every event, what caused it, how it went
+  console.log(
+    `\n🌳 CAUSATION TREE (${chain.processedEvents} events processed${chain.truncated ? ", truncated" : ""}):`
+  );
+  printCausationTree(chain.root);
+
+  // The portal didn't get our ack in time and sends the match again. The
+  // idempotency store knows its handler already succeeded: the original result
+  // comes back, the command doesn't run, and there's no second STORE_MATCHED to pay out on
+  console.log("\n♻️  REDELIVERING THE MATCH EVENT...");
+  const redelivered = await manager.processEvent(matchEvent);
+  console.log(`   ${describeResult(redelivered)}`);
+  console.log(
+    `   same side effect as the first time: ${redelivered.sideEffects[0]?.id === chain.root.result?.sideEffects[0]?.id}`
+  );
+
+  // Process an event no command handles
+  // The brand portal is allowed to send PRODUCT_ADDED, but nothing routes it yet -
+  // the fallback handler records it instead of the whole thing blowing up
+  console.log("\n📭 PROCESSING AN EVENT WITHOUT A HANDLER: PRODUCT_ADDED");
+  const productAddedResult = await manager.processEvent({
+    id: Math.random().toString(36).substring(2, 9),
+    type: "PRODUCT_ADDED",
+    payload: { productId: "PROD-ENERGY-BLAST", name: "Energy Blast Shot" },
+    metadata: {
+      correlationId: "CORR-" + Math.random().toString(36).substring(2, 9),
+      causationId: "",
+      timestamp: new Date(),
+      source: "brand-portal"
+    }
+  });
+  console.log(`   ${describeResult(productAddedResult)}`);
+
+  // Process an event from a source that isn't allowed to send it
+  // The auth hook's AuthorizationError comes back as an "unauthorized" status -
+  // the caller can tell this apart from a bug without reading any logs
+  console.log("\n⛔ PROCESSING AN EVENT FROM AN UNAUTHORIZED SOURCE...");
+  const unauthorizedResult = await manager.processEvent({
+    ...matchEvent,
+    id: Math.random().toString(36).substring(2, 9),
+    metadata: { ...matchEvent.metadata, source: "brand-portal" }
+  });
+  console.log(`   ${describeResult(unauthorizedResult)}`);
+
+  // Neither of those two events vanished - they're in the dead letter queue,
+  // with what went wrong, where, and how many attempts it took
+  console.log("\n📮 CHECKING THE DEAD LETTER QUEUE...");
+  const deadLetters = container.resolve(SERVICE_IDENTIFIERS.DEAD_LETTER_QUEUE);
+  for (const deadLetter of await deadLetters.list()) {
+    console.log(
+      `   ${deadLetter.event.type} ${deadLetter.event.id}: ${deadLetter.status} in ${deadLetter.failedIn ?? "routing"}` +
+        ` after ${deadLetter.attempts} attempt(s), failed ${deadLetter.failureCount} time(s) - ${deadLetter.error.message}`
+    );
   }
 
+  // Redriving goes through the normal pipeline - the source still isn't
+  // authorized, so it fails again and its dead letter's failure count goes up
+  console.log("\n🔁 REDRIVING THE UNAUTHORIZED EVENT...");
+  const redriven = await deadLetters.redrive(unauthorizedResult.eventId);
+  console.log(`   ${describeResult(redriven)}`);
+  console.log(`   failed ${(await deadLetters.get(unauthorizedResult.eventId))?.failureCount} time(s) now`);
+
+  // Nobody's going to fix these - clear them out so the next run starts empty
+  console.log(`\n🗑️  PURGED ${await deadLetters.purge()} DEAD LETTER(S)`);
+
+  // The rep portal syncs a route: a burst of match events for three stores.
+  // The dispatcher runs different stores side by side, but a store's own
+  // events finish in the order they were sent
+  console.log("\n🚚 DISPATCHING A BURST OF MATCH EVENTS FOR THREE STORES...");
+  const dispatcher = container.resolve(SERVICE_IDENTIFIERS.EVENT_DISPATCHER);
+  const finished: string[] = [];
+  const burst = ["STORE-QUICKMART-123", "STORE-CORNER-456", "STORE-QUICKMART-123", "STORE-FUELSTOP-789", "STORE-CORNER-456"].map(
+    (storeId, index) =>
+      dispatcher
+        .dispatch({
+          ...matchEvent,
+          id: Math.random().toString(36).substring(2, 9),
+          payload: { ...matchEvent.payload, storeId }
+        })
+        .then(result => finished.push(`#${index + 1} ${storeId} (${result.status})`))
+  );
+  const { queued, inFlight, partitions } = dispatcher.getStats();
+  console.log(`   ${inFlight} in flight, ${queued} queued, across ${partitions} store(s)`);
+  await Promise.all(burst);
+  finished.forEach(line => console.log(`   finished ${line}`));
+
   // Demonstrate different capability stacks
   // This shows the real power of our design patterns working together
   console.log("\n🧪 DEMONSTRATING DIFFERENT CAPABILITY COMPOSITIONS");
 
+  // 0. A base stack with every standard capability, each under a name
+  // The variants below are derived from it instead of being rebuilt by hand
+  console.log("\n🧱 CREATING BASE CAPABILITY STACK...");
+  const baseBuilder = container
+    .resolve(SERVICE_IDENTIFIERS.COMMAND_BUILDER)
+    .withPreInvokeHook(
+      createLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER)),
+      { name: "logging", priority: -10 } // Log first, whatever gets added later
+    )
+    .withPreInvokeHook(
+      createAuthHook(container.resolve(SERVICE_IDENTIFIERS.AUTH_SERVICE)),
+      { name: "auth" }
+    )
+    .withPreInvokeHook(
+      createValidationHook(
+        container.resolve(SERVICE_IDENTIFIERS.VALIDATION_SERVICE)
+      ),
+      { name: "validation" }
+    )
+    // Performance metrics collection (a finally hook, so failures count too)
+    .withFinallyHook(
+      createMetricsHook(container.resolve(SERVICE_IDENTIFIERS.METRICS_SERVICE)),
+      { name: "metrics" }
+    );
+  const describeStack = (builder: TransactionCommandBuilder) =>
+    builder
+      .listHooks()
+      .map((hook) => `${hook.stage}:${hook.name}`)
+      .join(" → ");
+  console.log(`   ${describeStack(baseBuilder)}`);
+  // Every builder can say which events it handles - no need to try and catch
+  console.log(`   handles: ${baseBuilder.getRegisteredEventTypes().join(", ")}`);
+
   // 1. A minimal capability stack with just logging
   // This demonstrates how we can create a lightweight configuration for simple scenarios
   console.log("\n🔍 CREATING MINIMAL CAPABILITY STACK (LOGGING ONLY)...");
-  const basicBuilder = container
-    .resolve<TransactionCommandBuilder>(SERVICE_IDENTIFIERS.COMMAND_BUILDER)
-    // Only add logging, nothing else
-    .withPreInvokeHook(
-      createLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER))
-    );
+  const basicBuilder = baseBuilder
+    .withoutHook("auth")
+    .withoutHook("validation")
+    .withoutHook("metrics");
+  console.log(`   ${describeStack(basicBuilder)}`);
 
   // Create a manager with the minimal capability stack
   const basicManager = new DefaultTransactionManager(
     basicBuilder,
-    eventCollector
+    container
   );
 
   // 2. A security-focused stack with auth and validation
   // This demonstrates how we can create a stack focused on security concerns
   console.log("\n🔒 CREATING SECURITY-FOCUSED CAPABILITY STACK...");
-  const securityBuilder = container
-    .resolve<TransactionCommandBuilder>(SERVICE_IDENTIFIERS.COMMAND_BUILDER)
-    // Add authorization checks
-    .withPreInvokeHook(
-      createAuthHook(container.resolve(SERVICE_IDENTIFIERS.AUTH_SERVICE))
-    )
-    // Add payload validation
-    .withPreInvokeHook(
-      createValidationHook(
-        container.resolve(SERVICE_IDENTIFIERS.VALIDATION_SERVICE)
-      )
-    );
+  const securityBuilder = baseBuilder
+    .withoutHook("logging")
+    .withoutHook("metrics");
+  console.log(`   ${describeStack(securityBuilder)}`);
 
   // Create a manager with the security-focused stack
   const securityManager = new DefaultTransactionManager(
     securityBuilder,
-    eventCollector
+    container
   );
 
   // 3. An analytics-heavy stack
   // This demonstrates how we can create a stack focused on business intelligence
   console.log("\n📈 CREATING ANALYTICS-FOCUSED CAPABILITY STACK...");
-  const analyticsBuilder = container
-    .resolve<TransactionCommandBuilder>(SERVICE_IDENTIFIERS.COMMAND_BUILDER)
-    // Add basic logging
-    .withPreInvokeHook(
-      createLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER))
-    )
-    // Add AI predictions for enhanced data
-    .withPreInvokeHook(createAIPredictionHook())
-    // Add performance metrics collection
-    .withPostInvokeHook(
-      createMetricsHook(container.resolve(SERVICE_IDENTIFIERS.METRICS_SERVICE))
-    )
+  const analyticsBuilder = baseBuilder
+    .withoutHook("auth")
+    .withoutHook("validation")
+    // Add AI predictions for enhanced data - only match events carry products
+    .withPreInvokeHook(createAIPredictionHook(), {
+      name: "ai-prediction",
+      eventTypes: ["MATCH_STORE_TO_PRODUCT"]
+    })
     // Add business revenue analytics
-    .withPostInvokeHook(createRevenueAnalyticsHook());
+    .withPostInvokeHook(
+      createRevenueAnalyticsHook(container.resolve(SERVICE_IDENTIFIERS.CONFIG)),
+      { name: "revenue-analytics" }
+    );
+  console.log(`   ${describeStack(analyticsBuilder)}`);
 
   // Create a manager with the analytics-focused stack
   const analyticsManager = new DefaultTransactionManager(
     analyticsBuilder,
-    eventCollector
+    container
   );
 
+  // 4. The base stack with a tight deadline for match events
+  // MatchStoreToProductCommand takes about half a second, so its signal is aborted.
+  // Timeouts count as transient, so the configured retry policy tries twice more
+  // with backoff before the handler fails with a CommandTimeoutError - logged and
+  // counted once, and without any side effects from the abandoned attempts
+  //
+  // It's behind a circuit breaker too: after 5 failed attempts in a row the
+  // MATCH_STORE_TO_PRODUCT circuit opens, and the next event fails fast with a
+  // CircuitOpenError instead of waiting for yet another timeout
+  console.log("\n⏰ CREATING A STACK WITH A 100MS TIMEOUT FOR MATCH EVENTS...");
+  const circuitBreaker = container.resolve(SERVICE_IDENTIFIERS.CIRCUIT_BREAKER);
+  const impatientManager = new DefaultTransactionManager(
+    baseBuilder
+      .withTimeout(100, { eventTypes: ["MATCH_STORE_TO_PRODUCT"] })
+      .withAroundHook(createCircuitBreakerHook(circuitBreaker), { name: "circuit-breaker" }),
+    container
+  );
+  for (let round = 1; round <= 3; round++) {
+    const { handlers: [result] } = await impatientManager.processEvent(matchEvent);
+    console.log(
+      `   #${round} ${result.commandId}: ${result.status}` +
+        (result.error instanceof CommandTimeoutError
+          ? ` (timed out after ${result.error.timeoutMs}ms)`
+          : result.error instanceof CircuitOpenError
+            ? " (circuit open - failed fast)"
+            : "") +
+        ` - circuit is ${circuitBreaker.getState(matchEvent.type)}`
+    );
+  }
+
   // BENEFITS FOR DEVELOPERS:
   // This capability composition approach means:
   // 1. You can start simple and add complexity as needed
@@ -429,6 +471,11 @@ async function runRepRallyDemo() {
   // 3. You can add new capabilities without changing existing code
   // 4. You can test different capability combinations easily
 
+  // Shut the container down - services with dispose hooks (like metrics) get to flush
+  // in reverse creation order, so nothing is torn down while something still uses it
+  console.log("\n🧹 DISPOSING DI CONTAINER...");
+  await container.dispose();
+
   // Summarize what we've demonstrated
   console.log("\n✅ DEMO COMPLETED SUCCESSFULLY!");
   console.log("This showcase demonstrates how our design patterns enable:");
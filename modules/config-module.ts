@@ -0,0 +1,19 @@
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { LayeredConfigService } from '../services/config';
+
+/**
+ * Config Module
+ * 
+ * Loads the layered configuration (config/default.json, config/<env>.json and
+ * RALLY_* environment variables). Load it before the modules that read config:
+ * it's an eager async singleton, so container.initialize() reads and validates
+ * the files up front, and a broken config stops the app before the first event.
+ */
+export const configModule = createContainerModule('config', container => {
+  container.register(SERVICE_IDENTIFIERS.CONFIG, {
+    useFactory: () => LayeredConfigService.load(),
+    lifetime: 'singleton',
+    eager: true
+  });
+});
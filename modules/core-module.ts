@@ -0,0 +1,147 @@
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { ShadowTransactionCommandBuilder } from '../core/command-builder';
+import { DefaultTransactionManager } from '../core/transaction-manager';
+import { PartitionedEventDispatcher, partitionByPaths } from '../core/event-dispatcher';
+import { FifoEventCollector } from '../services/event-collector';
+import { RecordUnhandledEventCommand } from '../commands/record-unhandled-event-command';
+import { HookBinding } from '../core/types';
+
+/**
+ * Core Module
+ * 
+ * The event processing machinery: the per-event collector, the command builder,
+ * the transaction manager and the dispatcher in front of it. Apart from the
+ * fallback that records unhandled events, it doesn't know a single command or
+ * hook by name - it collects whatever the other modules contributed through
+ * the multi-binding tokens (COMMAND_REGISTRATION and the PRE/POST/AROUND/ERROR/FINALLY hook tokens).
+ */
+export const coreModule = createContainerModule('core', container => {
+  // Register event collector
+  // This service collects side effects from commands
+  // Scoped: the transaction manager opens a scope per event, so every event
+  // gets its own collector instead of inheriting the previous event's side effects
+  container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, {
+    useClass: FifoEventCollector,
+    lifetime: 'scoped'
+  });
+
+  // Set up our command builder with factories
+  // This demonstrates the FACTORY PATTERN combined with the BUILDER PATTERN
+  container.register(SERVICE_IDENTIFIERS.COMMAND_BUILDER, {
+    useFactory: container => {
+      // Create a new builder - this implements the BUILDER PATTERN
+      const builder = new ShadowTransactionCommandBuilder();
+
+      // Register command factories - this implements the FACTORY PATTERN
+      // Every module can contribute registrations for the event types it owns
+      // Two modules claiming the same event type fails here, unless one asks to override
+      // (eventType may also be a glob like STORE_*, which registers a pattern route)
+      // Registrations that all say multi: true fan out - each one gets its own handler
+      for (const { eventType, factory, override, priority, multi } of container.resolveAll(SERVICE_IDENTIFIERS.COMMAND_REGISTRATION)) {
+        builder.registerCommandRoute(eventType, factory, { override, priority, multi });
+      }
+
+      // Commands get a time limit from config - the default, then per-event-type overrides
+      const { timeoutMs, eventTypeTimeoutsMs, retry } = container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('commands');
+      const withTimeouts = Object.entries(eventTypeTimeoutsMs).reduce(
+        (timed, [eventType, ms]) => timed.withTimeout(ms, { eventTypes: [eventType] }),
+        builder.withTimeout(timeoutMs)
+      );
+
+      // Transient failures are retried with exponential backoff - validation and
+      // auth failures never are. Every retry is logged, so a flaky dependency
+      // shows up in the logs before it turns into failures
+      const logger = container.resolve(SERVICE_IDENTIFIERS.LOGGER);
+      const withRetries = withTimeouts.withRetry({
+        maxAttempts: retry.maxAttempts,
+        backoff: { initialDelayMs: retry.initialDelayMs, multiplier: retry.multiplier, maxDelayMs: retry.maxDelayMs },
+        jitter: retry.jitter,
+        onRetry: ({ event, attempt, maxAttempts, error, delayMs }) => logger.log(
+          `🔁 ${event.type} attempt ${attempt} of ${maxAttempts} failed (${error.message}) - retrying in ${delayMs}ms`
+        )
+      });
+
+      // Events nobody handles are recorded rather than thrown away
+      return withRetries.withFallbackHandler(event => new RecordUnhandledEventCommand(event));
+    },
+    deps: [SERVICE_IDENTIFIERS.COMMAND_REGISTRATION, SERVICE_IDENTIFIERS.CONFIG, SERVICE_IDENTIFIERS.LOGGER],
+    lifetime: 'singleton' // Singleton ensures consistent command creation throughout the app
+  });
+
+  // The transaction manager with our composed capabilities
+  // This demonstrates the MEDIATOR PATTERN and DECORATOR PATTERN working together
+  container.register(SERVICE_IDENTIFIERS.TRANSACTION_MANAGER, {
+    useFactory: container => {
+      const commandBuilder = container.resolve(SERVICE_IDENTIFIERS.COMMAND_BUILDER);
+
+      // Each withX call creates a new builder with the additional capability
+      // The stack itself comes from the container: every registered hook, in order
+      // Scoped hooks arrive as { hook, options } and keep their options
+      const withPreHooks = container
+        .resolveAll(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK)
+        .map(toHookBinding)
+        .reduce((builder, { hook, options }) => builder.withPreInvokeHook(hook, options), commandBuilder);
+      const withPostHooks = container
+        .resolveAll(SERVICE_IDENTIFIERS.POST_INVOKE_HOOK)
+        .map(toHookBinding)
+        .reduce((builder, { hook, options }) => builder.withPostInvokeHook(hook, options), withPreHooks);
+      const withAroundHooks = container
+        .resolveAll(SERVICE_IDENTIFIERS.AROUND_INVOKE_HOOK)
+        .map(toHookBinding)
+        .reduce((builder, { hook, options }) => builder.withAroundHook(hook, options), withPostHooks);
+      const withErrorHooks = container
+        .resolveAll(SERVICE_IDENTIFIERS.ERROR_HOOK)
+        .map(toHookBinding)
+        .reduce((builder, { hook, options }) => builder.withErrorHook(hook, options), withAroundHooks);
+      const enhancedBuilder = container
+        .resolveAll(SERVICE_IDENTIFIERS.FINALLY_HOOK)
+        .map(toHookBinding)
+        .reduce((builder, { hook, options }) => builder.withFinallyHook(hook, options), withErrorHooks);
+
+      // It gets the container so it can open a fresh scope for every event
+      // Events that don't succeed end up in the dead letter queue
+      // Handlers that did succeed are remembered, so redeliveries get the same answer
+      const { fanOut, chain } = container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('processing');
+      const deadLetters = container.resolve(SERVICE_IDENTIFIERS.DEAD_LETTER_QUEUE);
+      const idempotency = container.resolve(SERVICE_IDENTIFIERS.IDEMPOTENCY_STORE);
+      return new DefaultTransactionManager(enhancedBuilder, container, { fanOut, chain, deadLetters, idempotency });
+    },
+    deps: [
+      SERVICE_IDENTIFIERS.CONFIG,
+      SERVICE_IDENTIFIERS.DEAD_LETTER_QUEUE,
+      SERVICE_IDENTIFIERS.IDEMPOTENCY_STORE,
+      SERVICE_IDENTIFIERS.COMMAND_BUILDER,
+      SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK,
+      SERVICE_IDENTIFIERS.POST_INVOKE_HOOK,
+      SERVICE_IDENTIFIERS.AROUND_INVOKE_HOOK,
+      SERVICE_IDENTIFIERS.ERROR_HOOK,
+      SERVICE_IDENTIFIERS.FINALLY_HOOK
+    ],
+    lifetime: 'singleton', // Singleton ensures consistent event processing
+    eager: true // Built (with everything it depends on) during container.initialize()
+  });
+
+  // The way in for bursts of events: concurrent across partitions, ordered within one
+  // A singleton - one queue, one concurrency limit - and drained when the container is disposed
+  container.register(SERVICE_IDENTIFIERS.EVENT_DISPATCHER, {
+    useFactory: container => {
+      const { concurrency, maxQueueSize, whenFull, partitionBy } = container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('processing').dispatcher;
+      return new PartitionedEventDispatcher(container.resolve(SERVICE_IDENTIFIERS.TRANSACTION_MANAGER), {
+        concurrency,
+        maxQueueSize,
+        whenFull,
+        partitionKey: partitionByPaths(partitionBy)
+      });
+    },
+    deps: [SERVICE_IDENTIFIERS.CONFIG, SERVICE_IDENTIFIERS.TRANSACTION_MANAGER],
+    lifetime: 'singleton'
+  });
+});
+
+/**
+ * Normalizes a hook contribution - bare hook or { hook, options } - into a binding
+ */
+function toHookBinding<H extends Function>(contribution: H | HookBinding<H>): HookBinding<H> {
+  return typeof contribution === 'function' ? { hook: contribution } : contribution;
+}
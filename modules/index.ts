@@ -0,0 +1,12 @@
+/**
+ * Container Modules
+ * 
+ * The application's registrations, grouped by concern. Load them in this order -
+ * hooks contributed by each module run in the order they were registered.
+ */
+export { configModule } from './config-module';
+export { coreModule } from './core-module';
+export { observabilityModule } from './observability-module';
+export { resilienceModule } from './resilience-module';
+export { securityModule } from './security-module';
+export { rallyCommandsModule } from './rally-commands-module';
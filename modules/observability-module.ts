@@ -0,0 +1,74 @@
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { ConsoleLogger } from '../services/logger';
+import { SimpleMetricsService } from '../services/metrics';
+import { createLoggingHook, createMetricsHook, createTimingHook, createErrorLoggingHook } from '../hooks';
+
+/**
+ * Observability Module
+ * 
+ * Everything we need to see what the system is doing: the logger, the metrics
+ * service, and the hooks that feed them from the command pipeline. Swapping
+ * console logging for a cloud logger means touching this file and nothing else.
+ */
+export const observabilityModule = createContainerModule('observability', container => {
+  // Register logger as a singleton (one instance shared by all consumers)
+  // This shows the STRATEGY PATTERN - ConsoleLogger is one strategy for logging
+  container.register(SERVICE_IDENTIFIERS.LOGGER, {
+    useClass: ConsoleLogger,
+    lifetime: 'singleton' // Singleton ensures all components use the same logger instance
+  });
+
+  // Register metrics service
+  // In a real app, we could swap this with a CloudMetricsService without changing consumers
+  // The deps list tells the container what to pass to the constructor - no factory needed
+  container.register(SERVICE_IDENTIFIERS.METRICS_SERVICE, {
+    useClass: SimpleMetricsService,
+    deps: [SERVICE_IDENTIFIERS.LOGGER],
+    lifetime: 'singleton'
+  });
+
+  // Add logging capability - records what commands are executing
+  container.register(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER)),
+      options: { name: 'logging' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.LOGGER], // Declared so validate() can see the edge
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Add timing capability - wraps the whole invocation, so failures get timed too
+  container.register(SERVICE_IDENTIFIERS.AROUND_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createTimingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER)),
+      options: { name: 'timing' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.LOGGER],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Add error logging capability - reports which command failed, then lets the error through
+  container.register(SERVICE_IDENTIFIERS.ERROR_HOOK, {
+    useFactory: container => ({
+      hook: createErrorLoggingHook(container.resolve(SERVICE_IDENTIFIERS.LOGGER)),
+      options: { name: 'error-logging' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.LOGGER],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Add metrics capability - records performance and execution data, failures included
+  container.register(SERVICE_IDENTIFIERS.FINALLY_HOOK, {
+    useFactory: container => ({
+      hook: createMetricsHook(container.resolve(SERVICE_IDENTIFIERS.METRICS_SERVICE)),
+      options: { name: 'metrics' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.METRICS_SERVICE],
+    lifetime: 'singleton',
+    multi: true
+  });
+});
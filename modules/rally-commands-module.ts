@@ -0,0 +1,103 @@
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { MatchStoreToProductCommand } from '../commands/match-store-command';
+import { RepCheckIn } from '../commands/rep-check-in-command';
+import { RecordCommissionCommand } from '../commands/record-commission-command';
+import {
+  createAIPredictionHook,
+  createCommissionCalculatorHook,
+  createRevenueAnalyticsHook
+} from '../hooks';
+
+/**
+ * Rally Commands Module
+ * 
+ * The RepRally business operations: which command handles which event type,
+ * and the business-specific capabilities (AI predictions, commissions, revenue
+ * analytics) that go with them. Notice there's no infrastructure in here at all -
+ * the business numbers come from the CONFIG service, which configModule provides.
+ */
+export const rallyCommandsModule = createContainerModule('rally-commands', container => {
+  // Factory for MATCH_STORE_TO_PRODUCT events
+  // This maps events to the appropriate command implementation
+  // The command's settings are read from config when the registration is resolved
+  container.register(SERVICE_IDENTIFIERS.COMMAND_REGISTRATION, {
+    useFactory: container => {
+      const { matchStoreDelayMs } = container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('commands');
+      return {
+        eventType: 'MATCH_STORE_TO_PRODUCT',
+        factory: event => new MatchStoreToProductCommand(event, { delayMs: matchStoreDelayMs })
+      };
+    },
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Factory for STORE_MATCHED events
+  // Notice how different event types can map to different command classes
+  container.register(SERVICE_IDENTIFIERS.COMMAND_REGISTRATION, {
+    useFactory: container => {
+      const config = container.resolve(SERVICE_IDENTIFIERS.CONFIG);
+      const { repCheckInRate, defaultRevenue } = config.get('commissions');
+      const settings = {
+        delayMs: config.get('commands').repCheckInDelayMs,
+        commissionRate: repCheckInRate,
+        defaultRevenue
+      };
+      return {
+        eventType: 'STORE_MATCHED',
+        factory: event => new RepCheckIn(event, settings),
+        // STORE_MATCHED fans out - the commission ledger handles it too
+        multi: true
+      };
+    },
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Second handler for STORE_MATCHED events: books the projected commission
+  // Both registrations say multi: true, so neither one replaces the other
+  container.register(SERVICE_IDENTIFIERS.COMMAND_REGISTRATION, {
+    useValue: {
+      eventType: 'STORE_MATCHED',
+      factory: event => new RecordCommissionCommand(event),
+      multi: true
+    },
+    multi: true
+  });
+
+  // Add AI prediction capability - enhances data with ML predictions
+  // Note how business-specific capabilities can be composed just like technical ones
+  // Scoped to the one event type whose payload it understands
+  container.register(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK, {
+    useValue: {
+      hook: createAIPredictionHook(),
+      options: { name: 'ai-prediction', eventTypes: ['MATCH_STORE_TO_PRODUCT'] }
+    },
+    multi: true
+  });
+
+  // Add commission calculator - prepares commission data for commands
+  container.register(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createCommissionCalculatorHook(container.resolve(SERVICE_IDENTIFIERS.CONFIG)),
+      options: { name: 'commission-calculator', eventTypes: ['STORE_MATCHED', 'ASSIGN_REP'] }
+    }),
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Add revenue analytics - calculates business metrics from results
+  container.register(SERVICE_IDENTIFIERS.POST_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createRevenueAnalyticsHook(container.resolve(SERVICE_IDENTIFIERS.CONFIG)),
+      options: { name: 'revenue-analytics' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton',
+    multi: true
+  });
+});
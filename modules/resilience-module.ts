@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { ThresholdCircuitBreaker } from '../services/circuit-breaker';
+import { JsonlDeadLetterQueue } from '../services/dead-letter-queue';
+import { InMemoryIdempotencyStore, JsonlIdempotencyStore } from '../services/idempotency-store';
+import { createCircuitBreakerHook } from '../hooks';
+
+/**
+ * Resilience Module
+ * 
+ * What keeps a struggling dependency from dragging the rest of the system down
+ * with it, what catches the events that fail anyway, and what stops a
+ * redelivered event from being processed twice. Timeouts and retries are part
+ * of the command builder itself (see coreModule); the circuit breaker, the dead
+ * letter queue and the idempotency store have state that outlives any one
+ * command, so they're services.
+ */
+export const resilienceModule = createContainerModule('resilience', container => {
+  // One breaker holds every circuit - a singleton, or it'd forget about outages
+  // ThresholdCircuitBreaker declares its own dependencies with a static inject list
+  container.register(SERVICE_IDENTIFIERS.CIRCUIT_BREAKER, {
+    useClass: ThresholdCircuitBreaker,
+    lifetime: 'singleton'
+  });
+
+  // Add circuit breaker capability - fails fast while a command type's circuit is open
+  container.register(SERVICE_IDENTIFIERS.AROUND_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createCircuitBreakerHook(
+        container.resolve(SERVICE_IDENTIFIERS.CIRCUIT_BREAKER),
+        container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('commands').circuitBreaker.keyBy
+      ),
+      options: { name: 'circuit-breaker' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.CIRCUIT_BREAKER, SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Failed and unhandled events are parked here instead of vanishing
+  // The transaction manager depends on the queue, so the queue gets it lazily
+  // (for redrives) - listing it in deps would be a circular dependency. The
+  // lazy lookup goes through the module's container, not the factory's: the
+  // factory's view remembers it's in the middle of resolving the manager
+  container.register(SERVICE_IDENTIFIERS.DEAD_LETTER_QUEUE, {
+    useFactory: resolver => new JsonlDeadLetterQueue(
+      path.resolve(__dirname, '..', resolver.resolve(SERVICE_IDENTIFIERS.CONFIG).get('deadLetters').file),
+      () => container.resolve(SERVICE_IDENTIFIERS.TRANSACTION_MANAGER)
+    ),
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton'
+  });
+
+  // Processed events are remembered for a while, so a redelivery gets the
+  // original result instead of a second run - in memory, or in a file that
+  // survives restarts
+  container.register(SERVICE_IDENTIFIERS.IDEMPOTENCY_STORE, {
+    useFactory: container => {
+      const { store, ttlMs, file } = container.resolve(SERVICE_IDENTIFIERS.CONFIG).get('idempotency');
+      return store === 'file'
+        ? new JsonlIdempotencyStore(path.resolve(__dirname, '..', file), ttlMs)
+        : new InMemoryIdempotencyStore(ttlMs);
+    },
+    deps: [SERVICE_IDENTIFIERS.CONFIG],
+    lifetime: 'singleton'
+  });
+});
@@ -0,0 +1,51 @@
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { createContainerModule } from '../core/container-module';
+import { JSONSchemaValidator } from '../services/validator';
+import { BasicAuthService } from '../services/auth';
+import { createValidationHook, createAuthHook } from '../hooks';
+
+/**
+ * Security Module
+ * 
+ * Payload validation and source authorization, plus the pre-invoke hooks that
+ * enforce them. Keeping these together makes it obvious what a "secure" stack
+ * consists of - and makes it hard to ship one half without the other.
+ */
+export const securityModule = createContainerModule('security', container => {
+  // Register validation service
+  // This could be swapped with different validation implementations (JSON Schema, Yup, etc.)
+  container.register(SERVICE_IDENTIFIERS.VALIDATION_SERVICE, {
+    useClass: JSONSchemaValidator,
+    lifetime: 'singleton'
+  });
+
+  // Register auth service
+  // In a real app, this might be swapped with OAuth, JWT, or other auth strategies
+  // BasicAuthService declares its own dependencies with a static inject list
+  container.register(SERVICE_IDENTIFIERS.AUTH_SERVICE, {
+    useClass: BasicAuthService,
+    lifetime: 'singleton'
+  });
+
+  // Add validation capability - ensures events have valid payloads
+  container.register(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createValidationHook(container.resolve(SERVICE_IDENTIFIERS.VALIDATION_SERVICE)),
+      options: { name: 'validation' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.VALIDATION_SERVICE],
+    lifetime: 'singleton',
+    multi: true
+  });
+
+  // Add authorization capability - checks if the source is allowed to trigger this event
+  container.register(SERVICE_IDENTIFIERS.PRE_INVOKE_HOOK, {
+    useFactory: container => ({
+      hook: createAuthHook(container.resolve(SERVICE_IDENTIFIERS.AUTH_SERVICE)),
+      options: { name: 'auth' }
+    }),
+    deps: [SERVICE_IDENTIFIERS.AUTH_SERVICE],
+    lifetime: 'singleton',
+    multi: true
+  });
+});
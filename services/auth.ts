@@ -1,24 +1,28 @@
-import { AuthService } from '../core/types';
+import { AuthService, ConfigService, Logger } from '../core/types';
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
 
 /**
  * A basic auth service that checks if sources are authorized for specific events
  */
 export class BasicAuthService implements AuthService {
-  private authorizedSources: Map<string, string[]> = new Map([
-    ['rep-portal', ['MATCH_STORE_TO_PRODUCT', 'CANCEL_MATCH', 'ASSIGN_REP']],
-    ['matching-service', ['STORE_MATCHED', 'MATCH_UPDATED']],
-    ['brand-portal', ['PRODUCT_ADDED', 'PRODUCT_UPDATED']],
-    ['store-portal', ['STORE_CONFIRMED_MATCH', 'STORE_REJECTED_MATCH']]
-  ]);
+  /** Constructor dependencies, resolved by the DI container in parameter order */
+  static inject = [SERVICE_IDENTIFIERS.LOGGER, SERVICE_IDENTIFIERS.CONFIG];
+
+  /** Which event types each source may trigger, from the auth config section */
+  private authorizedSources: Map<string, string[]>;
+
+  constructor(private logger: Logger, config: ConfigService) {
+    this.authorizedSources = new Map(Object.entries(config.get('auth').authorizedSources));
+  }
 
   checkAuthorization(source: string, eventType: string): boolean {
     const allowedEvents = this.authorizedSources.get(source) || [];
     const isAuthorized = allowedEvents.includes(eventType);
     
     if (!isAuthorized) {
-      console.log(`🔒 Authorization failed: ${source} is not authorized for ${eventType}`);
+      this.logger.log(`🔒 Authorization failed: ${source} is not authorized for ${eventType}`);
     }
     
     return isAuthorized;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+import { CircuitBreakerService, CircuitState, ConfigService, Logger, MetricsService } from '../core/types';
+import { SERVICE_IDENTIFIERS } from '../core/di-container';
+import { CircuitOpenError, isRetryableError } from '../core/errors';
+
+/**
+ * Circuit Breaker Service Implementation
+ *
+ * This file implements the Circuit Breaker pattern - named after the thing in
+ * your fuse box, and for the same reason: when something downstream is on
+ * fire, stop feeding it current.
+ *
+ * HOW IT WORKS:
+ * Every key (an event type or a command class) has its own circuit.
+ * 1. Closed - calls go through. Consecutive failures are counted, and a success resets the count.
+ * 2. Open - after failureThreshold failures in a row, calls fail fast with a
+ *    CircuitOpenError without touching the dependency, until the cooldown is over.
+ * 3. Half-open - after the cooldown, ONE trial call goes through. If it succeeds
+ *    the circuit closes; if it fails, it's open for another cooldown.
+ *
+ * WHAT COUNTS AS A FAILURE:
+ * Only errors that say something about the dependency. A ValidationError or an
+ * AuthorizationError is the caller's problem - a flood of bad payloads shouldn't
+ * cut off the good ones. The rule is the same one the retry policy uses: errors
+ * marked `retryable: false` aren't the dependency's fault.
+ */
+
+/**
+ * The state of one key's circuit
+ */
+interface Circuit {
+  state: CircuitState;
+  /** Failures in a row while closed */
+  consecutiveFailures: number;
+  /** When the circuit last opened */
+  openedAt: number;
+  /** Whether the half-open trial call is in flight */
+  trialInFlight: boolean;
+}
+
+/**
+ * ThresholdCircuitBreaker - Opens a key's circuit after consecutive failures
+ *
+ * One instance (a singleton in the container) holds every circuit - the
+ * state has to outlive the commands, or the breaker would forget about the
+ * outage with every event.
+ */
+export class ThresholdCircuitBreaker implements CircuitBreakerService {
+  /** Constructor dependencies, resolved by the DI container in parameter order */
+  static inject = [SERVICE_IDENTIFIERS.LOGGER, SERVICE_IDENTIFIERS.METRICS_SERVICE, SERVICE_IDENTIFIERS.CONFIG];
+
+  /** Circuits by key, created closed on first use */
+  private circuits: Map<string, Circuit> = new Map();
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(private logger: Logger, private metrics: MetricsService, config: ConfigService) {
+    const { failureThreshold, cooldownMs } = config.get('commands').circuitBreaker;
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  async execute<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const circuit = this.circuitFor(key);
+
+    if (circuit.state === 'open') {
+      const remainingMs = circuit.openedAt + this.cooldownMs - Date.now();
+      if (remainingMs > 0) {
+        throw new CircuitOpenError(key, remainingMs);
+      }
+      this.transition(key, circuit, 'half-open', 'cooldown elapsed');
+    }
+
+    // Only one trial while half-open - everyone else keeps failing fast until it reports back
+    const isTrial = circuit.state === 'half-open';
+    if (isTrial) {
+      if (circuit.trialInFlight) {
+        throw new CircuitOpenError(key, 0);
+      }
+      circuit.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.onSuccess(key, circuit);
+      return result;
+    } catch (error) {
+      this.onFailure(key, circuit, error);
+      throw error;
+    } finally {
+      if (isTrial) {
+        circuit.trialInFlight = false;
+      }
+    }
+  }
+
+  getState(key: string): CircuitState {
+    return this.circuits.get(key)?.state ?? 'closed';
+  }
+
+  private circuitFor(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private onSuccess(key: string, circuit: Circuit): void {
+    circuit.consecutiveFailures = 0;
+    if (circuit.state === 'half-open') {
+      this.transition(key, circuit, 'closed', 'trial call succeeded');
+    }
+  }
+
+  private onFailure(key: string, circuit: Circuit, error: unknown): void {
+    if (error instanceof Error && !isRetryableError(error)) {
+      // Not the dependency's fault - no verdict either way
+      return;
+    }
+
+    if (circuit.state === 'half-open') {
+      this.transition(key, circuit, 'open', 'trial call failed');
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    if (circuit.state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold) {
+      this.transition(key, circuit, 'open', `${circuit.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  /**
+   * Moves a circuit to a new state and tells everybody who should know
+   */
+  private transition(key: string, circuit: Circuit, to: CircuitState, reason: string): void {
+    const from = circuit.state;
+    circuit.state = to;
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+    }
+    if (to === 'closed') {
+      circuit.consecutiveFailures = 0;
+    }
+
+    this.logger.log(`🔌 Circuit ${key}: ${from} → ${to} (${reason})`);
+    this.metrics.recordEvent('circuit-breaker.transition', {
+      circuit: key,
+      from,
+      to,
+      reason,
+      ...(to === 'open' ? { cooldownMs: this.cooldownMs } : {})
+    });
+  }
+}
@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  DeadLetter,
+  DeadLetterFilter,
+  DeadLetterQueue,
+  ProcessingResult,
+  TransactionEvent,
+  TransactionManager
+} from '../core/types';
+
+/**
+ * Dead Letter Queue Implementation
+ *
+ * The dead letter queue is the messaging world's lost and found: messages that
+ * couldn't be delivered go somewhere safe instead of into the void, and
+ * somebody comes along later to sort them out. I've run systems without one.
+ * Every incident ended with grepping logs for payloads and hand-crafting curl
+ * commands to replay them - never again.
+ *
+ * STORAGE:
+ * One JSON document per line (JSONL), one line per dead letter. It's greppable,
+ * it's diffable, `wc -l` tells you how bad your day is, and any queue or
+ * database can import it when you outgrow a local file. The whole file is
+ * rewritten on every change (to a temp file, then renamed over the original),
+ * so a crash mid-write leaves the old file intact rather than half a line.
+ *
+ * REDRIVING:
+ * A redrive hands the original event back to the transaction manager - the
+ * same hooks, routing, retries and circuit breakers as the first time. No
+ * back door that skips validation because "we already checked it once".
+ */
+
+/**
+ * JsonlDeadLetterQueue - A dead letter queue backed by a JSONL file
+ *
+ * The file is read once, on first use, and kept in memory after that. Changes
+ * are written through one at a time, in the order they were made.
+ */
+export class JsonlDeadLetterQueue implements DeadLetterQueue {
+  /** Dead letters by event ID, in the order they were first added */
+  private entries?: Map<string, DeadLetter>;
+  /** The pending write (writes are chained so they can't overtake each other) */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a dead letter queue
+   *
+   * The transaction manager is passed as a function because it depends on
+   * this queue: asking for it in the constructor would be a circular
+   * dependency. By the time anybody redrives anything, it exists.
+   *
+   * @param file Path of the JSONL file (created when the first dead letter arrives)
+   * @param getTransactionManager Returns the manager that redrives go through
+   */
+  constructor(private file: string, private getTransactionManager: () => TransactionManager) {}
+
+  async add(event: TransactionEvent, result: ProcessingResult): Promise<DeadLetter> {
+    const entries = await this.load();
+    const existing = entries.get(event.id);
+    const failure = result.handlers.find(handler => handler.status !== 'succeeded');
+    const error = result.error ?? failure?.error;
+    const now = new Date().toISOString();
+
+    const deadLetter: DeadLetter = {
+      event,
+      status: result.status,
+      error: error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : { name: 'Unhandled', message: `No command handles ${event.type} events` },
+      attempts: failure?.attempts ?? 0,
+      failedIn: failure?.failedIn,
+      commandId: failure?.commandId,
+      failedHandlers: result.handlers.length > 0
+        ? result.handlers.filter(handler => handler.status !== 'succeeded').map(handler => handler.handler)
+        : undefined,
+      failureCount: (existing?.failureCount ?? 0) + 1,
+      firstFailedAt: existing?.firstFailedAt ?? now,
+      lastFailedAt: now
+    };
+
+    entries.set(event.id, deadLetter);
+    await this.save();
+    return deadLetter;
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const entries = await this.load();
+    return [...entries.values()].filter(deadLetter => matches(deadLetter, filter));
+  }
+
+  async get(eventId: string): Promise<DeadLetter | undefined> {
+    const entries = await this.load();
+    return entries.get(eventId);
+  }
+
+  /**
+   * Sends a dead-lettered event's failed handlers through the pipeline again
+   *
+   * Only the handlers that failed run: with fan-out, the ones that succeeded
+   * already did their work, and running them again would do it twice. An
+   * event that never got as far as building a command runs in full.
+   *
+   * If it fails again, the transaction manager dead-letters it again - which
+   * updates this entry (failureCount goes up, and failedHandlers shrinks to
+   * whatever is still failing) rather than adding a second one.
+   *
+   * @throws If there's no dead letter for the event
+   */
+  async redrive(eventId: string): Promise<ProcessingResult> {
+    const deadLetter = await this.get(eventId);
+    if (!deadLetter) {
+      throw new Error(`No dead letter for event ${eventId}`);
+    }
+
+    const result = await this.getTransactionManager().processEvent(deadLetter.event, {
+      handlers: deadLetter.failedHandlers
+    });
+    if (result.status === 'succeeded') {
+      this.entries!.delete(eventId);
+      await this.save();
+    }
+    return result;
+  }
+
+  /**
+   * Redrives matching dead letters one at a time
+   *
+   * Deliberately not in parallel: the usual reason for a pile of dead letters
+   * is a dependency that just came back, and the kindest thing to do for it
+   * is not to hit it with the whole backlog at once.
+   */
+  async redriveAll(filter: DeadLetterFilter = {}): Promise<ProcessingResult[]> {
+    const results: ProcessingResult[] = [];
+    for (const deadLetter of await this.list(filter)) {
+      results.push(await this.redrive(deadLetter.event.id));
+    }
+    return results;
+  }
+
+  async purge(filter: DeadLetterFilter = {}): Promise<number> {
+    const entries = await this.load();
+    let purged = 0;
+    for (const [eventId, deadLetter] of entries) {
+      if (matches(deadLetter, filter)) {
+        entries.delete(eventId);
+        purged++;
+      }
+    }
+    if (purged > 0) {
+      await this.save();
+    }
+    return purged;
+  }
+
+  /**
+   * Reads the file the first time it's needed
+   *
+   * A missing file is an empty queue. JSON turns the event timestamps into
+   * strings, so they're turned back into Dates on the way in.
+   */
+  private async load(): Promise<Map<string, DeadLetter>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    let text = '';
+    try {
+      text = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Another caller may have loaded it while we were reading
+    if (!this.entries) {
+      this.entries = new Map();
+      text.split('\n').filter(line => line.trim().length > 0).forEach((line, index) => {
+        let deadLetter: DeadLetter;
+        try {
+          deadLetter = JSON.parse(line);
+        } catch (error) {
+          throw new Error(`Dead letter file ${this.file} line ${index + 1} is not valid JSON: ${(error as Error).message}`);
+        }
+        deadLetter.event.metadata.timestamp = new Date(deadLetter.event.metadata.timestamp);
+        this.entries!.set(deadLetter.event.id, deadLetter);
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * Writes the current entries to the file, after any write already under way
+   */
+  private save(): Promise<void> {
+    const write = this.writing.then(async () => {
+      const lines = [...this.entries!.values()].map(deadLetter => JSON.stringify(deadLetter));
+      const temporary = `${this.file}.tmp`;
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(temporary, lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8');
+      await fs.rename(temporary, this.file);
+    });
+    // A failed write fails its caller, not every write after it
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
+
+function matches(deadLetter: DeadLetter, filter: DeadLetterFilter): boolean {
+  return (filter.eventType === undefined || deadLetter.event.type === filter.eventType)
+    && (filter.status === undefined || deadLetter.status === filter.status);
+}
@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { HandlerResult, IdempotencyStore, TransactionEvent } from '../core/types';
+
+/**
+ * Idempotency Store Implementations
+ *
+ * Two stores behind one interface, and the choice between them is about what
+ * "remember" has to survive:
+ *
+ * - InMemoryIdempotencyStore survives nothing. Good enough when duplicates
+ *   come from a client retrying a few seconds later, and all you've got in
+ *   development.
+ * - JsonlIdempotencyStore survives a restart, which is exactly when brokers
+ *   love to redeliver - everything that was in flight when the process died
+ *   comes back.
+ *
+ * When you run more than one instance you'll want a shared store (Redis with
+ * SET NX and an expiry is the classic). It's one more class implementing
+ * IdempotencyStore - nothing else has to change.
+ */
+
+/** A stored handler result and when it's forgotten */
+interface Entry {
+  result: HandlerResult;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * InMemoryIdempotencyStore - Remembers results in a Map until they expire
+ *
+ * Every entry lives for the same TTL, so the Map's insertion order is also
+ * expiry order (set() re-inserts a replaced entry at the end). Expired entries
+ * are swept from the front on every set() - the sweep stops at the first live
+ * one, so it never walks the whole Map.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries: Map<string, Entry> = new Map();
+
+  /**
+   * @param ttlMs How long a result is remembered
+   */
+  constructor(private ttlMs: number) {}
+
+  async get(eventId: string, handler: number): Promise<HandlerResult | undefined> {
+    const key = entryKey(eventId, handler);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry?.result;
+  }
+
+  async set(eventId: string, handler: number, result: HandlerResult): Promise<void> {
+    const key = entryKey(eventId, handler);
+    const now = Date.now();
+    for (const [existing, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(existing);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: now + this.ttlMs });
+  }
+}
+
+/**
+ * JsonlIdempotencyStore - Remembers results in a JSONL file
+ *
+ * Unlike the dead letter queue, which rewrites its file on every change, this
+ * one appends: it's written to once for every handler that succeeds, and rewriting
+ * the whole file each time would get slower with every event. The file is
+ * read on first use, and compacted right then if it holds expired or replaced
+ * lines - so it only grows between restarts.
+ */
+export class JsonlIdempotencyStore implements IdempotencyStore {
+  private entries?: Map<string, Entry>;
+  /** The pending write (appends are chained so lines can't interleave) */
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param file Path of the JSONL file (created on the first set())
+   * @param ttlMs How long a result is remembered
+   */
+  constructor(private file: string, private ttlMs: number) {}
+
+  async get(eventId: string, handler: number): Promise<HandlerResult | undefined> {
+    const key = entryKey(eventId, handler);
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      // It's still in the file - the next compaction drops it
+      entries.delete(key);
+      return undefined;
+    }
+    return entry?.result;
+  }
+
+  async set(eventId: string, handler: number, result: HandlerResult): Promise<void> {
+    const key = entryKey(eventId, handler);
+    const entries = await this.load();
+    const entry: Entry = { result, expiresAt: Date.now() + this.ttlMs };
+    entries.set(key, entry);
+    await this.write(() => fs.appendFile(this.file, serialize(key, entry) + '\n', 'utf8'));
+  }
+
+  /**
+   * Reads the file the first time it's needed, and compacts it
+   *
+   * A missing file is an empty store. When the same handler of the same
+   * event has several lines, the last one wins.
+   */
+  private async load(): Promise<Map<string, Entry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    let text = '';
+    try {
+      text = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Another caller may have loaded it while we were reading
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const entries = new Map<string, Entry>();
+    const lines = text.split('\n').filter(line => line.trim().length > 0);
+    const now = Date.now();
+    lines.forEach((line, index) => {
+      let record: { key: string; expiresAt: number; result: any };
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Idempotency file ${this.file} line ${index + 1} is not valid JSON: ${(error as Error).message}`);
+      }
+      entries.delete(record.key);
+      if (record.expiresAt > now) {
+        entries.set(record.key, { result: reviveResult(record.result), expiresAt: record.expiresAt });
+      }
+    });
+    this.entries = entries;
+
+    if (entries.size < lines.length) {
+      const compacted = [...entries].map(([key, entry]) => serialize(key, entry));
+      const temporary = `${this.file}.tmp`;
+      await this.write(async () => {
+        await fs.writeFile(temporary, compacted.length > 0 ? compacted.join('\n') + '\n' : '', 'utf8');
+        await fs.rename(temporary, this.file);
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Runs a write after any write already under way
+   */
+  private write(operation: () => Promise<void>): Promise<void> {
+    const write = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await operation();
+    });
+    // A failed write fails its caller, not every write after it
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Turns an entry into a JSON line
+ *
+ * Errors don't survive JSON.stringify (it gives you `{}`), so they're written
+ * as their name, message and stack.
+ */
+function serialize(key: string, entry: Entry): string {
+  return JSON.stringify({ key, expiresAt: entry.expiresAt, result: entry.result }, (_key, value) =>
+    value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+  );
+}
+
+/**
+ * Turns a handler result read from JSON back into something that looks like the original
+ *
+ * Errors come back as plain Errors with the original name - the class itself
+ * is gone, so instanceof checks won't match, but the status still says what
+ * kind of failure it was.
+ */
+function reviveResult(result: any): HandlerResult {
+  let error: Error | undefined;
+  if (result.error) {
+    error = new Error(result.error.message);
+    error.name = result.error.name;
+    error.stack = result.error.stack;
+  }
+
+  return {
+    ...result,
+    error,
+    sideEffects: result.sideEffects.map((event: any): TransactionEvent => ({
+      ...event,
+      metadata: { ...event.metadata, timestamp: new Date(event.metadata.timestamp) }
+    }))
+  };
+}
+
+/**
+ * The key an event's handler is stored under
+ */
+function entryKey(eventId: string, handler: number): string {
+  return `${eventId}#${handler}`;
+}
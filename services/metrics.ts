@@ -1,4 +1,4 @@
-import { MetricsService } from '../core/types';
+import { MetricsService, Logger } from '../core/types';
 
 /**
  * Metrics Service Implementation
@@ -40,6 +40,19 @@ import { MetricsService } from '../core/types';
 export class SimpleMetricsService implements MetricsService {
   /** In-memory storage for metrics data, organized by command ID */
   private metrics: Record<string, any[]> = {};
+  /** In-memory storage for everything that isn't a command execution, in arrival order */
+  private events: Array<{ name: string; data: Record<string, any>; timestamp: Date }> = [];
+
+  /**
+   * Creates a new metrics service
+   * 
+   * The logger is constructor-injected by the DI container (see the `deps`
+   * list on the METRICS_SERVICE registration), so metrics output goes wherever
+   * the application's logging strategy sends it.
+   * 
+   * @param logger The logger used to report recorded metrics
+   */
+  constructor(private logger: Logger) {}
 
   /**
    * Records metrics about a command execution
@@ -68,8 +81,8 @@ export class SimpleMetricsService implements MetricsService {
     });
     
     // Log the metrics (in a real system, this would be sent to a monitoring service)
-    console.log(`[METRICS] Recorded execution of ${commandId}`);
-    console.log(`[METRICS] Data: ${JSON.stringify(data)}`);
+    this.logger.log(`[METRICS] Recorded execution of ${commandId}`);
+    this.logger.log(`[METRICS] Data: ${JSON.stringify(data)}`);
     
     // In a production system, we might also:
     // - Calculate aggregates (min, max, avg, percentiles)
@@ -77,4 +90,35 @@ export class SimpleMetricsService implements MetricsService {
     // - Trigger alerts for concerning patterns
     // - Expire old metrics data
   }
+
+  /**
+   * Records a notable event that isn't a command execution
+   * 
+   * Circuit breaker transitions end up here. They're rare, and they're the
+   * first thing you want to see on the dashboard when they do happen.
+   * 
+   * @param name What happened (e.g. "circuit-breaker.transition")
+   * @param data The details
+   */
+  recordEvent(name: string, data: Record<string, any>): void {
+    this.events.push({ name, data, timestamp: new Date() });
+    this.logger.log(`[METRICS] Event ${name}: ${JSON.stringify(data)}`);
+  }
+
+  /**
+   * Flushes collected metrics on shutdown
+   * 
+   * Called by the DI container when it's disposed. A real implementation would
+   * push anything still buffered to the monitoring backend here - this is the
+   * last chance before the process exits and the data is gone.
+   */
+  dispose(): void {
+    const commandCount = Object.keys(this.metrics).length;
+    const executionCount = Object.values(this.metrics)
+      .reduce((total, executions) => total + executions.length, 0);
+    
+    this.logger.log(`[METRICS] Flushing ${executionCount} execution(s) across ${commandCount} command(s) and ${this.events.length} event(s)`);
+    this.metrics = {};
+    this.events = [];
+  }
 }
\ No newline at end of file
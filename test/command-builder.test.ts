@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ShadowTransactionCommandBuilder } from '../core/command-builder';
+import { CommandContext, TransactionCommand, TransactionEvent } from '../core/types';
+import { FifoEventCollector } from '../services/event-collector';
+
+function createEvent(source: string): TransactionEvent {
+  return {
+    id: `event-${source}`,
+    type: 'TEST_EVENT',
+    payload: {},
+    metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source }
+  };
+}
+
+function createContext(event: TransactionEvent): CommandContext {
+  return {
+    event,
+    state: {},
+    eventCollector: new FifoEventCollector(),
+    startedAt: new Date(),
+    signal: new AbortController().signal
+  };
+}
+
+function createBuilder(): ShadowTransactionCommandBuilder {
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('TEST_EVENT', (): TransactionCommand => ({ commandId: 'test', invoke: async () => {} }));
+  return builder;
+}
+
+async function run(builder: { buildCommand(event: TransactionEvent): TransactionCommand }, event: TransactionEvent): Promise<void> {
+  await builder.buildCommand(event).invoke(createContext(event));
+}
+
+test('a hook limited to a global RegExp source fires for every matching event', async () => {
+  let fired = 0;
+  const builder = createBuilder().withPreInvokeHook(async () => { fired++; }, { sources: [/portal/g] });
+
+  for (let i = 0; i < 4; i++) {
+    await run(builder, createEvent('rep-portal'));
+  }
+  await run(builder, createEvent('matching-service'));
+
+  assert.equal(fired, 4);
+});
+
+test('replaceHook swaps a hook for one of the same stage', async () => {
+  const calls: string[] = [];
+  const builder = createBuilder()
+    .withPreInvokeHook(async () => { calls.push('original'); }, { name: 'audit' })
+    .replaceHook('audit', 'pre', async () => { calls.push('replacement'); });
+
+  await run(builder, createEvent('rep-portal'));
+
+  assert.deepEqual(calls, ['replacement']);
+});
+
+test('replaceHook refuses a hook for a different stage', () => {
+  const builder = createBuilder().withPreInvokeHook(async () => {}, { name: 'audit' });
+
+  assert.throws(
+    () => builder.replaceHook('audit', 'around', async (_command, _context, next) => next()),
+    /'audit' runs in the pre stage - it can't be replaced with a hook for the around stage/
+  );
+});
+
+test('glob routes are listed with the event types and can be unregistered', () => {
+  const builder = createBuilder();
+  builder.registerCommandRoute('STORE_*', (): TransactionCommand => ({ commandId: 'store', invoke: async () => {} }));
+
+  assert.deepEqual(builder.getRegisteredEventTypes(), ['TEST_EVENT', 'STORE_*']);
+  assert.equal(builder.hasHandler('STORE_PAUSED_MATCH'), true);
+
+  assert.equal(builder.unregisterCommandFactory('STORE_*'), true);
+  assert.equal(builder.unregisterCommandFactory('STORE_*'), false);
+  assert.equal(builder.hasHandler('STORE_PAUSED_MATCH'), false);
+  assert.deepEqual(builder.getRegisteredEventTypes(), ['TEST_EVENT']);
+});
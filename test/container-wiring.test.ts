@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DIContainer, SERVICE_IDENTIFIERS } from '../core/di-container';
+import { ContainerValidationError } from '../core/container-graph';
+import {
+  configModule,
+  coreModule,
+  observabilityModule,
+  resilienceModule,
+  securityModule,
+  rallyCommandsModule
+} from '../modules';
+
+/**
+ * Container Wiring Tests
+ *
+ * The composition root is the one piece of code every feature touches, and the
+ * one nobody writes tests for. These load the real modules, in the same order
+ * index.ts does, so a missing registration or a new cycle fails here instead
+ * of at startup in production.
+ */
+
+function createAppContainer(): DIContainer {
+  const container = new DIContainer();
+  container.load(configModule, coreModule, observabilityModule, resilienceModule, securityModule, rallyCommandsModule);
+  return container;
+}
+
+test('the real modules pass container validation', () => {
+  const report = createAppContainer().validate();
+  assert.ok(report.valid, new ContainerValidationError(report).message);
+});
+
+test('the real modules initialize and process a match event end to end', async () => {
+  const container = createAppContainer();
+  await container.initialize();
+  try {
+    const result = await container.resolve(SERVICE_IDENTIFIERS.TRANSACTION_MANAGER).processEvent({
+      id: 'wiring-test-match',
+      type: 'MATCH_STORE_TO_PRODUCT',
+      payload: {
+        storeId: 'STORE-TEST-1',
+        productList: [{ id: 'PROD-TEST-1', name: 'Test Product', price: 9.99, estimatedVolume: 10, category: 'Wellness' }]
+      },
+      metadata: { correlationId: 'wiring-test', causationId: 'wiring-test', timestamp: new Date(), source: 'rep-portal' }
+    });
+
+    assert.equal(result.status, 'succeeded');
+    assert.deepEqual(result.sideEffects.map(event => event.type), ['STORE_MATCHED']);
+  } finally {
+    await container.dispose();
+  }
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DIContainer, SERVICE_IDENTIFIERS } from '../core/di-container';
+import { ShadowTransactionCommandBuilder } from '../core/command-builder';
+import { DefaultTransactionManager } from '../core/transaction-manager';
+import { TransactionEvent } from '../core/types';
+import { FifoEventCollector } from '../services/event-collector';
+import { JsonlDeadLetterQueue } from '../services/dead-letter-queue';
+
+const event: TransactionEvent = {
+  id: 'dead-letter-test',
+  type: 'STORE_MATCHED',
+  payload: {},
+  metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source: 'test' }
+};
+
+test('a redrive only re-runs the handlers that failed', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-'));
+  try {
+    const runs = { checkIn: 0, commission: 0 };
+    const builder = new ShadowTransactionCommandBuilder();
+    builder.registerCommandFactory('STORE_MATCHED', () => ({
+      commandId: 'check-in',
+      invoke: async () => { runs.checkIn++; }
+    }), { multi: true });
+    builder.registerCommandFactory('STORE_MATCHED', () => ({
+      commandId: 'commission',
+      invoke: async () => {
+        runs.commission++;
+        if (runs.commission === 1) {
+          throw new Error('ledger unavailable');
+        }
+      }
+    }), { multi: true });
+
+    const container = new DIContainer();
+    container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, { useClass: FifoEventCollector, lifetime: 'scoped' });
+    let manager: DefaultTransactionManager | undefined;
+    const deadLetters = new JsonlDeadLetterQueue(path.join(directory, 'dead-letters.jsonl'), () => manager!);
+    manager = new DefaultTransactionManager(builder, container, { deadLetters });
+
+    const first = await manager.processEvent(event);
+    assert.equal(first.status, 'failed');
+    assert.deepEqual((await deadLetters.get(event.id))?.failedHandlers, [1]);
+
+    const redriven = await deadLetters.redrive(event.id);
+
+    assert.equal(redriven.status, 'succeeded');
+    assert.deepEqual(redriven.handlers.map(handler => handler.commandId), ['commission']);
+    assert.deepEqual(runs, { checkIn: 1, commission: 2 });
+    assert.equal(await deadLetters.get(event.id), undefined);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
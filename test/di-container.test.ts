@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  AsyncServiceNotReadyError,
+  CircularDependencyError,
+  DIContainer,
+  createServiceToken
+} from '../core/di-container';
+
+interface Clock {
+  now(): number;
+}
+
+const CLOCK = createServiceToken<Clock>('CLOCK');
+const A = createServiceToken<object>('A');
+const B = createServiceToken<object>('B');
+
+test('a singleton is created once and shared by scopes', () => {
+  const container = new DIContainer();
+  let created = 0;
+  container.register(CLOCK, {
+    useFactory: () => {
+      created++;
+      return { now: () => 0 };
+    },
+    lifetime: 'singleton'
+  });
+
+  const clock = container.resolve(CLOCK);
+  assert.equal(container.createScope().resolve(CLOCK), clock);
+  assert.equal(created, 1);
+});
+
+test('a cycle through factories fails with the resolution path', () => {
+  const container = new DIContainer();
+  container.register(A, { useFactory: c => ({ b: c.resolve(B) }), deps: [B] });
+  container.register(B, { useFactory: c => ({ a: c.resolve(A) }), deps: [A] });
+
+  assert.throws(() => container.resolve(A), (error: unknown) => {
+    assert.ok(error instanceof CircularDependencyError);
+    assert.deepEqual(error.path, [A, B, A]);
+    return true;
+  });
+});
+
+test('resolveAsync reuses the creation a synchronous resolve started', async () => {
+  const container = new DIContainer();
+  let calls = 0;
+  container.register(CLOCK, {
+    useFactory: async () => {
+      calls++;
+      return { now: () => 42 };
+    },
+    lifetime: 'singleton'
+  });
+
+  assert.throws(() => container.resolve(CLOCK), AsyncServiceNotReadyError);
+  const clock = await container.resolveAsync(CLOCK);
+
+  assert.equal(calls, 1);
+  assert.equal(clock.now(), 42);
+  assert.equal(container.resolve(CLOCK), clock);
+});
+
+test('a factory known to be async is not called again from a synchronous resolve', () => {
+  const container = new DIContainer();
+  let calls = 0;
+  container.register(CLOCK, {
+    useFactory: async () => {
+      calls++;
+      return { now: () => 42 };
+    },
+    lifetime: 'transient'
+  });
+
+  assert.throws(() => container.resolve(CLOCK), AsyncServiceNotReadyError);
+  assert.throws(() => container.resolve(CLOCK), AsyncServiceNotReadyError);
+  assert.equal(calls, 1);
+});
@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PartitionedEventDispatcher } from '../core/event-dispatcher';
+import { DispatcherDrainingError, QueueFullError } from '../core/errors';
+import { ProcessingResult, TransactionEvent, TransactionManager } from '../core/types';
+
+function createEvent(id: string, storeId: string): TransactionEvent {
+  return {
+    id,
+    type: 'REP_CHECKED_IN',
+    payload: { storeId },
+    metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source: 'test' }
+  };
+}
+
+/**
+ * A manager whose events only finish when the test says so
+ */
+function createManager() {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const manager: TransactionManager = {
+    processEvent: event => {
+      started.push(event.id);
+      return new Promise<ProcessingResult>(resolve => {
+        finishers.set(event.id, () => resolve({
+          eventId: event.id,
+          eventType: event.type,
+          status: 'succeeded',
+          durationMs: 0,
+          sideEffects: [],
+          handlers: []
+        }));
+      });
+    },
+    processEventChain: async () => { throw new Error('not used'); },
+    handleError: async () => undefined
+  };
+  const finish = async (id: string) => {
+    finishers.get(id)!();
+    await settle();
+  };
+  return { manager, started, finish };
+}
+
+/** Lets the dispatcher react to whatever just settled */
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+test('events with the same key run one at a time, in order', async () => {
+  const { manager, started, finish } = createManager();
+  const dispatcher = new PartitionedEventDispatcher(manager, { concurrency: 4 });
+
+  const results = ['a', 'b', 'c'].map(id => dispatcher.dispatch(createEvent(id, 'store-1')));
+  await settle();
+  assert.deepEqual(started, ['a']);
+
+  await finish('a');
+  assert.deepEqual(started, ['a', 'b']);
+  await finish('b');
+  await finish('c');
+
+  assert.deepEqual((await Promise.all(results)).map(result => result.eventId), ['a', 'b', 'c']);
+});
+
+test('events with different keys run side by side, up to the concurrency', async () => {
+  const { manager, started, finish } = createManager();
+  const dispatcher = new PartitionedEventDispatcher(manager, { concurrency: 2 });
+
+  dispatcher.dispatch(createEvent('a', 'store-1'));
+  dispatcher.dispatch(createEvent('b', 'store-2'));
+  dispatcher.dispatch(createEvent('c', 'store-3'));
+  await settle();
+  assert.deepEqual(started, ['a', 'b']);
+  assert.equal(dispatcher.getStats().inFlight, 2);
+
+  await finish('a');
+  assert.deepEqual(started, ['a', 'b', 'c']);
+  await finish('b');
+  await finish('c');
+});
+
+test("whenFull: 'reject' refuses an event when the queue is full", async () => {
+  const { manager, finish } = createManager();
+  const dispatcher = new PartitionedEventDispatcher(manager, { concurrency: 1, maxQueueSize: 1, whenFull: 'reject' });
+
+  const first = dispatcher.dispatch(createEvent('a', 'store-1'));
+  await settle();
+  const second = dispatcher.dispatch(createEvent('b', 'store-2'));
+
+  await assert.rejects(dispatcher.dispatch(createEvent('c', 'store-3')), QueueFullError);
+
+  await finish('a');
+  await finish('b');
+  await Promise.all([first, second]);
+});
+
+test("whenFull: 'wait' keeps a waiting event behind its partition's running one", async () => {
+  const { manager, started, finish } = createManager();
+  const dispatcher = new PartitionedEventDispatcher(manager, { concurrency: 2, maxQueueSize: 1 });
+
+  const results = [
+    dispatcher.dispatch(createEvent('a', 'store-1')),
+    dispatcher.dispatch(createEvent('a2', 'store-3')),
+    dispatcher.dispatch(createEvent('b', 'store-2')),
+    dispatcher.dispatch(createEvent('c', 'store-2')),
+    dispatcher.dispatch(createEvent('d', 'store-2'))
+  ];
+  await settle();
+  assert.deepEqual(started, ['a', 'a2']);
+  assert.equal(dispatcher.getStats().waiting, 2);
+
+  // b starts, and c takes its place in the queue - but has to wait for it
+  await finish('a');
+  assert.deepEqual(started, ['a', 'a2', 'b']);
+  await finish('a2');
+  assert.deepEqual(started, ['a', 'a2', 'b']);
+
+  await finish('b');
+  assert.deepEqual(started, ['a', 'a2', 'b', 'c']);
+  await finish('c');
+  assert.deepEqual(started, ['a', 'a2', 'b', 'c', 'd']);
+  await finish('d');
+
+  assert.equal((await Promise.all(results)).length, 5);
+  assert.deepEqual(dispatcher.getStats(), { queued: 0, waiting: 0, inFlight: 0, partitions: 0, draining: false });
+});
+
+test('drain refuses new events and waits for the accepted ones', async () => {
+  const { manager, finish } = createManager();
+  const dispatcher = new PartitionedEventDispatcher(manager, { concurrency: 1 });
+
+  dispatcher.dispatch(createEvent('a', 'store-1'));
+  dispatcher.dispatch(createEvent('b', 'store-2'));
+  await settle();
+
+  let drained = false;
+  const draining = dispatcher.drain().then(() => { drained = true; });
+  await assert.rejects(dispatcher.dispatch(createEvent('c', 'store-3')), DispatcherDrainingError);
+  assert.equal(dispatcher.getStats().draining, true);
+
+  await finish('a');
+  assert.equal(drained, false);
+  await finish('b');
+  await draining;
+  assert.equal(drained, true);
+  assert.equal(dispatcher.dispose(), dispatcher.drain());
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DIContainer, SERVICE_IDENTIFIERS } from '../core/di-container';
+import { ShadowTransactionCommandBuilder } from '../core/command-builder';
+import { DefaultTransactionManager } from '../core/transaction-manager';
+import { IdempotencyStore, TransactionEvent } from '../core/types';
+import { FifoEventCollector } from '../services/event-collector';
+import { InMemoryIdempotencyStore, JsonlIdempotencyStore } from '../services/idempotency-store';
+
+const event: TransactionEvent = {
+  id: 'idempotency-test',
+  type: 'STORE_MATCHED',
+  payload: {},
+  metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source: 'test' }
+};
+
+/**
+ * A manager with two handlers for STORE_MATCHED - the second fails its first run
+ */
+function createManager(idempotency: IdempotencyStore) {
+  const runs = { checkIn: 0, commission: 0 };
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('STORE_MATCHED', () => ({
+    commandId: 'check-in',
+    invoke: async context => {
+      runs.checkIn++;
+      context.eventCollector.addEvent({ ...event, id: `check-in-${runs.checkIn}`, type: 'REP_CHECKED_IN' });
+    }
+  }), { multi: true });
+  builder.registerCommandFactory('STORE_MATCHED', () => ({
+    commandId: 'commission',
+    invoke: async () => {
+      runs.commission++;
+      if (runs.commission === 1) {
+        throw new Error('ledger unavailable');
+      }
+    }
+  }), { multi: true });
+
+  const container = new DIContainer();
+  container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, { useClass: FifoEventCollector, lifetime: 'scoped' });
+  return { manager: new DefaultTransactionManager(builder, container, { idempotency }), runs };
+}
+
+test('a redelivery skips the handlers that already succeeded', async () => {
+  const { manager, runs } = createManager(new InMemoryIdempotencyStore(60_000));
+
+  const first = await manager.processEvent(event);
+  assert.equal(first.status, 'failed');
+
+  const second = await manager.processEvent(event);
+  assert.equal(second.status, 'succeeded');
+  assert.equal(second.replayed, undefined);
+  assert.deepEqual(second.handlers.map(handler => handler.replayed), [true, undefined]);
+  assert.deepEqual(second.sideEffects.map(sideEffect => sideEffect.id), ['check-in-1']);
+  assert.deepEqual(runs, { checkIn: 1, commission: 2 });
+
+  const third = await manager.processEvent(event);
+  assert.equal(third.replayed, true);
+  assert.deepEqual(runs, { checkIn: 1, commission: 2 });
+});
+
+test('the file store remembers handlers across a restart', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+  try {
+    const file = path.join(directory, 'idempotency.jsonl');
+    await createManager(new JsonlIdempotencyStore(file, 60_000)).manager.processEvent(event);
+
+    const { manager, runs } = createManager(new JsonlIdempotencyStore(file, 60_000));
+    const redelivered = await manager.processEvent(event);
+
+    assert.equal(redelivered.status, 'failed');
+    assert.deepEqual(redelivered.handlers.map(handler => handler.replayed), [true, undefined]);
+    assert.ok(redelivered.sideEffects[0].metadata.timestamp instanceof Date);
+    assert.deepEqual(runs, { checkIn: 0, commission: 1 });
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("a duplicate that arrives while the original fails isn't reported as replayed", async () => {
+  const { manager, runs } = createManager(new InMemoryIdempotencyStore(60_000));
+
+  const [original, duplicate] = await Promise.all([manager.processEvent(event), manager.processEvent(event)]);
+
+  assert.equal(original.status, 'failed');
+  assert.equal(duplicate.status, 'failed');
+  assert.equal(duplicate.replayed, undefined);
+  assert.deepEqual(runs, { checkIn: 1, commission: 1 });
+});
+
+test('a redrive of some handlers runs them even while the whole event is running', async () => {
+  const { manager, runs } = createManager(new InMemoryIdempotencyStore(60_000));
+
+  const [, redriven] = await Promise.all([manager.processEvent(event), manager.processEvent(event, { handlers: [1] })]);
+
+  assert.deepEqual(redriven.handlers.map(handler => handler.commandId), ['commission']);
+  assert.equal(redriven.replayed, undefined);
+  assert.deepEqual(runs, { checkIn: 1, commission: 2 });
+});
@@ -0,0 +1,16 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Test Entry Point
+ *
+ * Loads every *.test.ts file in this directory into one process, and node:test
+ * runs them there. `node --test` would give each file its own child process,
+ * but on Node 20 the runner reads the children's results off the same stdout
+ * our services log to, and every so often a log line lands in the middle of a
+ * result and fails a passing file. One process, no shared pipe.
+ */
+fs.readdirSync(__dirname)
+  .filter(file => file.endsWith('.test.ts'))
+  .sort()
+  .forEach(file => require(path.join(__dirname, file)));
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { runWithRetry } from '../core/retry';
+import { ValidationError } from '../core/errors';
+import { CommandContext, RetryAttempt, TransactionEvent } from '../core/types';
+import { FifoEventCollector } from '../services/event-collector';
+
+const event: TransactionEvent = {
+  id: 'retry-test',
+  type: 'TEST_EVENT',
+  payload: {},
+  metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source: 'test' }
+};
+
+function createContext(): CommandContext {
+  return { event, state: {}, eventCollector: new FifoEventCollector(), startedAt: new Date(), signal: new AbortController().signal };
+}
+
+test('failed attempts are reported to onRetry and their side effects are dropped', async () => {
+  const retries: RetryAttempt[] = [];
+  const context = createContext();
+
+  await runWithRetry(
+    { maxAttempts: 3, backoff: { initialDelayMs: 0 }, onRetry: retry => retries.push(retry) },
+    context,
+    async attemptContext => {
+      attemptContext.eventCollector.addEvent({ ...event, id: `side-effect-${attemptContext.state.attempt}` });
+      if (attemptContext.state.attempt < 3) {
+        throw new Error('flaky');
+      }
+    }
+  );
+
+  assert.deepEqual(retries.map(retry => [retry.attempt, retry.maxAttempts, retry.error.message]), [[1, 3, 'flaky'], [2, 3, 'flaky']]);
+  assert.deepEqual(context.eventCollector.getEvents().map(sideEffect => sideEffect.id), ['side-effect-3']);
+});
+
+test('errors marked not retryable fail on the first attempt', async () => {
+  let attempts = 0;
+
+  await assert.rejects(
+    runWithRetry({ maxAttempts: 3, backoff: { initialDelayMs: 0 } }, createContext(), async () => {
+      attempts++;
+      throw new ValidationError('TEST_EVENT');
+    }),
+    ValidationError
+  );
+  assert.equal(attempts, 1);
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DIContainer, SERVICE_IDENTIFIERS } from '../core/di-container';
+import { ShadowTransactionCommandBuilder } from '../core/command-builder';
+import { DefaultTransactionManager } from '../core/transaction-manager';
+import { ValidationError } from '../core/errors';
+import { CausationNode, TransactionCommand, TransactionEvent } from '../core/types';
+import { FifoEventCollector } from '../services/event-collector';
+
+function createEvent(type: string): TransactionEvent {
+  return {
+    id: `event-${type}`,
+    type,
+    payload: {},
+    metadata: { correlationId: 'c', causationId: 'c', timestamp: new Date(), source: 'test' }
+  };
+}
+
+function createManager(builder: ShadowTransactionCommandBuilder): DefaultTransactionManager {
+  const container = new DIContainer();
+  container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, { useClass: FifoEventCollector, lifetime: 'scoped' });
+  return new DefaultTransactionManager(builder, container);
+}
+
+function command(commandId: string, invoke: TransactionCommand['invoke']): TransactionCommand {
+  return { commandId, invoke };
+}
+
+test('a single handler puts its command ID and final state on the result', async () => {
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('ONE', () => command('one-1', async context => { context.state.matched = true; }));
+
+  const result = await createManager(builder).processEvent(createEvent('ONE'));
+
+  assert.equal(result.status, 'succeeded');
+  assert.equal(result.commandId, 'one-1');
+  assert.deepEqual(result.state, { matched: true });
+});
+
+test('the status says which error class the result carries', async () => {
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('BAD', () => command('bad-1', async () => { throw new ValidationError('BAD'); }));
+
+  const result = await createManager(builder).processEvent(createEvent('BAD'));
+
+  assert.equal(result.status, 'rejected-by-validation');
+  if (result.status === 'rejected-by-validation') {
+    // Typed as ValidationError here - no instanceof needed to read eventType
+    assert.equal(result.error.eventType, 'BAD');
+  }
+});
+
+test('a fanned-out event leaves command ID and state to the handler results', async () => {
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('FAN', () => command('first', async () => {}), { multi: true });
+  builder.registerCommandFactory('FAN', () => command('second', async () => {}), { multi: true });
+
+  const result = await createManager(builder).processEvent(createEvent('FAN'));
+
+  assert.equal(result.commandId, undefined);
+  assert.equal(result.state, undefined);
+  assert.deepEqual(result.handlers.map(handler => handler.commandId), ['first', 'second']);
+});
+
+test("an event's handlers share its scope, and each reports only its own side effects", async () => {
+  const builder = new ShadowTransactionCommandBuilder();
+  const sideEffect = (id: string) => ({ ...createEvent('SIDE_EFFECT'), id });
+  builder.registerCommandFactory('FAN', () => command('first', async context => {
+    context.eventCollector.addEvent(sideEffect('from-first'));
+  }), { multi: true });
+  builder.registerCommandFactory('FAN', () => command('second', async context => {
+    context.eventCollector.addEvent(sideEffect('from-second'));
+    throw new Error('second failed');
+  }), { multi: true });
+
+  const collectors: FifoEventCollector[] = [];
+  const container = new DIContainer();
+  container.register(SERVICE_IDENTIFIERS.EVENT_COLLECTOR, {
+    useFactory: () => {
+      const collector = new FifoEventCollector();
+      collectors.push(collector);
+      return collector;
+    },
+    lifetime: 'scoped'
+  });
+
+  const result = await new DefaultTransactionManager(builder, container).processEvent(createEvent('FAN'));
+
+  assert.equal(collectors.length, 1);
+  assert.deepEqual(collectors[0].getEvents().map(event => event.id), ['from-first', 'from-second']);
+  assert.deepEqual(result.handlers.map(handler => handler.sideEffects.map(event => event.id)), [['from-first'], []]);
+  assert.deepEqual(result.sideEffects.map(event => event.id), ['from-first']);
+});
+
+/**
+ * A builder whose LOOP events each cause another LOOP event, and whose ROOT
+ * events cause one nothing handles
+ */
+function createChainBuilder(): ShadowTransactionCommandBuilder {
+  let emitted = 0;
+  const emit = (type: string): TransactionCommand['invoke'] => async context => {
+    context.eventCollector.addEvent({ ...createEvent(type), id: `${type}-${++emitted}` });
+  };
+  const builder = new ShadowTransactionCommandBuilder();
+  builder.registerCommandFactory('ROOT', () => command('root', emit('UNROUTED')));
+  builder.registerCommandFactory('LOOP', () => command('loop', emit('LOOP')));
+  return builder;
+}
+
+/** The depth and skip reason of every node, depth-first from the root */
+function describeTree(node: CausationNode): Array<[number, string | undefined]> {
+  return [[node.depth, node.skipped], ...node.children.flatMap(describeTree)];
+}
+
+test('a chain leaves side effects nothing handles as skipped leaves', async () => {
+  const chain = await createManager(createChainBuilder()).processEventChain(createEvent('ROOT'));
+
+  assert.equal(chain.processedEvents, 1);
+  assert.equal(chain.truncated, false);
+  assert.deepEqual(describeTree(chain.root), [[0, undefined], [1, 'no-handler']]);
+  assert.equal(chain.root.children[0].result, undefined);
+});
+
+test('a chain stops below maxDepth and says it was truncated', async () => {
+  const chain = await createManager(createChainBuilder()).processEventChain(createEvent('LOOP'), { maxDepth: 2 });
+
+  assert.equal(chain.processedEvents, 3);
+  assert.equal(chain.truncated, true);
+  assert.deepEqual(describeTree(chain.root), [[0, undefined], [1, undefined], [2, undefined], [3, 'max-depth']]);
+});
+
+test('a chain stops after maxEvents and says it was truncated', async () => {
+  const chain = await createManager(createChainBuilder()).processEventChain(createEvent('LOOP'), { maxEvents: 2 });
+
+  assert.equal(chain.processedEvents, 2);
+  assert.equal(chain.truncated, true);
+  assert.deepEqual(describeTree(chain.root), [[0, undefined], [1, undefined], [2, 'max-events']]);
+});